@@ -40,3 +40,26 @@ export const Skipper: SkipCapable = {
     $skipGaps: true,
 
 };
+
+export interface BacktrackCapable {
+
+    /**
+     * Should we try alternative matches of earlier steps if a later step fails?
+     */
+    $backtrack: boolean;
+
+    /**
+     * Maximum number of alternative matches to try in a single match attempt
+     */
+    $backtrackBudget?: number;
+}
+
+/**
+ * Backtrack into earlier productions when later ones fail.
+ * @type {{$backtrack: boolean}}
+ */
+export const Backtracker: BacktrackCapable = {
+
+    $backtrack: true,
+
+};
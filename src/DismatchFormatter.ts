@@ -0,0 +1,105 @@
+import { LinePositions } from "./internal/LinePositions";
+import { isMatchFailureReport } from "./MatchPrefixResult";
+import { DismatchReport } from "./PatternMatch";
+
+/**
+ * Options for formatting a DismatchReport
+ */
+export interface DismatchFormatOptions {
+
+    /**
+     * Color the output with ANSI escape sequences. Default false.
+     */
+    ansi?: boolean;
+
+    /**
+     * Number of lines of input to show before and after the line where matching failed. Default 2.
+     */
+    contextLines?: number;
+}
+
+const Ansi = {
+    bold: (s: string) => `\u001b[1m${s}\u001b[22m`,
+    dim: (s: string) => `\u001b[2m${s}\u001b[22m`,
+    red: (s: string) => `\u001b[31m${s}\u001b[39m`,
+};
+
+const Plain = {
+    bold: (s: string) => s,
+    dim: (s: string) => s,
+    red: (s: string) => s,
+};
+
+/**
+ * Render a failure to match as a readable message, with an excerpt of the input:
+ * the lines around the furthest point matching reached, with a caret under it,
+ * what was expected there and the Concat steps that led there.
+ * Reports without a failure tree, such as those from custom matchers, render as their description.
+ * @param report report from exactMatch or a matcher
+ * @param input the input that failed to match
+ * @param options formatting options
+ * @return {string}
+ */
+export function formatDismatch(report: DismatchReport,
+                               input: string,
+                               options: DismatchFormatOptions = {}): string {
+    const style = options.ansi ? Ansi : Plain;
+    if (!isMatchFailureReport(report)) {
+        return style.bold(report.description);
+    }
+    const offset = report.furthestOffset;
+    const positions = new LinePositions();
+    positions.record(input);
+    const position = positions.positionOf(offset);
+
+    const expected = report.expectedAtFurthest;
+    const lines = [
+        style.bold(`Expected ${expected.length === 1 ? expected[0] : `one of ${expected.join(", ")}`} ` +
+            `at line ${position.line}, column ${position.column}`),
+    ];
+    const steps = report.stepsToFurthest;
+    if (steps.length > 0) {
+        lines.push(`Steps: ${steps.join(" > ")}`);
+    }
+
+    lines.push(formatCodeFrame(input, offset, options));
+    return lines.join("\n");
+}
+
+/**
+ * Render the lines of the input around an offset, with a caret under it
+ * @param input input the offset is within
+ * @param offset offset to point at
+ * @param options formatting options
+ * @return {string}
+ */
+export function formatCodeFrame(input: string, offset: number, options: DismatchFormatOptions = {}): string {
+    const style = options.ansi ? Ansi : Plain;
+    const contextLines = options.contextLines !== undefined ? options.contextLines : 2;
+    const positions = new LinePositions();
+    positions.record(input);
+    const position = positions.positionOf(offset);
+    const lines: string[] = [];
+    const inputLines = input.split(/\r?\n/);
+    const first = Math.max(1, position.line - contextLines);
+    const last = Math.min(inputLines.length, position.line + contextLines);
+    const width = String(last).length;
+    for (let line = first; line <= last; line++) {
+        const text = inputLines[line - 1];
+        const marker = line === position.line ? style.red(">") : " ";
+        lines.push(`${marker} ${style.dim(`${pad(String(line), width)} |`)}${text ? " " + text : ""}`);
+        if (line === position.line) {
+            // Keep tabs so the caret lines up however they're displayed
+            const indent = text.substr(0, position.column - 1).replace(/[^\t]/g, " ");
+            lines.push(`  ${style.dim(`${pad("", width)} |`)} ${indent}${style.red("^")}`);
+        }
+    }
+    return lines.join("\n");
+}
+
+function pad(s: string, width: number): string {
+    while (s.length < width) {
+        s = " " + s;
+    }
+    return s;
+}
@@ -0,0 +1,143 @@
+import { grammarGraph, GrammarNode } from "./internal/GrammarGraph";
+import {
+    box, choice, comment, labelled, oneOrMore, optional, Railroad, sequence, toSvg,
+} from "./internal/Railroad";
+import { toMatchingLogic } from "./matchers/Concat";
+
+/**
+ * Render a grammar as a self-contained SVG railroad diagram.
+ * Steps are labelled with their names, unless they're unbound.
+ * A recursive reference to a matcher already being drawn is shown as a box containing its $id.
+ * @param grammar a matcher, Microgrammar or definitions
+ * @return {string} SVG document
+ */
+export function railroadSvg(grammar: any): string {
+    return toSvg(railroad(grammarGraph(toMatchingLogic(grammar)), []));
+}
+
+/**
+ * Render a grammar as a Graphviz digraph, with a node per matcher and an edge to each matcher it's composed of,
+ * labelled with the step name, alternative number or role. Recursive grammars have cycles.
+ * @param grammar a matcher, Microgrammar or definitions
+ * @return {string} DOT source
+ */
+export function graphvizDot(grammar: any): string {
+    const lines = [
+        "digraph grammar {",
+        `    node [fontname="monospace"];`,
+    ];
+    const seen: GrammarNode[] = [];
+    const visit = (node: GrammarNode) => {
+        if (seen.indexOf(node) !== -1) {
+            return;
+        }
+        seen.push(node);
+        const style = DotStyles[node.kind];
+        lines.push(`    n${node.index} [label="${escapeDot(dotLabel(node))}", shape=${style.shape}` +
+            (style.style ? `, style=${style.style}` : "") + "];");
+        node.children.forEach((edge, i) => {
+            const label = (node.kind === "choice" || node.kind === "longest") ? String(i + 1) : edge.name;
+            lines.push(`    n${node.index} -> n${edge.node.index}` +
+                (label ? ` [label="${escapeDot(label)}"]` : "") + ";");
+        });
+        node.children.forEach(edge => visit(edge.node));
+    };
+    visit(grammarGraph(toMatchingLogic(grammar)));
+    lines.push("}");
+    return lines.join("\n");
+}
+
+const DotStyles: { [kind: string]: { shape: string, style?: string } } = {
+    sequence: { shape: "box" },
+    choice: { shape: "diamond" },
+    longest: { shape: "diamond" },
+    optional: { shape: "ellipse" },
+    repeat: { shape: "ellipse" },
+    skip: { shape: "ellipse" },
+    lookahead: { shape: "ellipse" },
+    literal: { shape: "box", style: "rounded" },
+    regex: { shape: "box", style: "rounded" },
+    block: { shape: "box" },
+    other: { shape: "box", style: "dashed" },
+};
+
+function dotLabel(node: GrammarNode): string {
+    switch (node.kind) {
+        case "choice":
+            return "firstOf";
+        case "longest":
+            return "longestOf";
+        case "optional":
+            return "optional";
+        case "repeat":
+            return repetitionNote(node) || (node.min === 0 ? "zero or more" : "one or more");
+        case "skip":
+            return node.consume ? "skip to" : "up to";
+        case "lookahead":
+            return node.positive ? "followed by" : "not followed by";
+        case "literal":
+            return `"${node.label}"`;
+        default:
+            return node.label;
+    }
+}
+
+/**
+ * Build a railroad for the node, given the nodes we're drawing within
+ */
+function railroad(node: GrammarNode, drawing: GrammarNode[]): Railroad {
+    if (drawing.indexOf(node) !== -1) {
+        return box(node.label, false);
+    }
+    const within = drawing.concat([node]);
+    const child = (i: number) => railroad(node.children[i].node, within);
+    const named = (role: string) => node.children.filter(edge => edge.name === role)[0];
+    switch (node.kind) {
+        case "sequence":
+            return sequence(node.children.map((edge, i) =>
+                edge.name.charAt(0) === "_" ? child(i) : labelled(edge.name, child(i))));
+        case "choice":
+            return choice(node.children.map((edge, i) => child(i)));
+        case "longest":
+            return sequence([comment("longest of"), choice(node.children.map((edge, i) => child(i)))]);
+        case "optional":
+            return optional(child(0));
+        case "repeat":
+            const separator = named("separator");
+            const repeated = oneOrMore(child(0),
+                separator ? railroad(separator.node, within) : undefined,
+                repetitionNote(node));
+            return node.min === 0 ? optional(repeated) : repeated;
+        case "skip":
+            const unless = named("unless");
+            return sequence([comment(node.consume ? "skip to" : "up to"), child(0)]
+                .concat(unless ? [comment("failing at"), railroad(unless.node, within)] : []));
+        case "lookahead":
+            return sequence([comment(node.positive ? "followed by" : "not followed by"), child(0)]);
+        case "literal":
+        case "regex":
+            return box(node.label, true);
+        case "block":
+            return node.children.length > 0 ?
+                sequence([box(node.label, false), comment("containing"), child(0)]) :
+                box(node.label, false);
+        default:
+            return box(node.label, false);
+    }
+}
+
+/**
+ * Describe the bounds of a repetition, unless it's plain zero or more or one or more
+ */
+function repetitionNote(node: GrammarNode): string {
+    if (node.max !== Infinity) {
+        return node.min === node.max ? `${node.min} times` : `${node.min} to ${node.max} times`;
+    }
+    return node.min > 1 ? `at least ${node.min} times` : undefined;
+}
+
+function escapeDot(s: string): string {
+    return s.replace(/\\/g, "\\\\")
+        .replace(/"/g, "\\\"")
+        .replace(/\n/g, "\\n");
+}
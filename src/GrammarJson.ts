@@ -0,0 +1,624 @@
+import { Break, isBreak } from "./internal/Break";
+import { RuleResolver } from "./internal/RuleResolver";
+import { Matcher, MatchingLogic } from "./Matchers";
+import { Concat, isMatcher, isMatchingLogicMember, isNamedMatcher } from "./matchers/Concat";
+import { CBlock } from "./matchers/lang/cfamily/CBlock";
+import { CFamilyStateMachine } from "./matchers/lang/cfamily/CFamilyStateMachine";
+import { Lookahead } from "./matchers/Lookahead";
+import { Span } from "./matchers/snobol/Span";
+import { MicrogrammarError } from "./MicrogrammarError";
+import { Alt, Longest, Opt } from "./Ops";
+import { Float, Integer, isLiteral, Literal, LowercaseBoolean, Regex, regexFlags } from "./Primitives";
+import { Rep, Rep1, Rep1Sep, Repetition, RepSep } from "./Rep";
+
+/**
+ * A grammar described in JSON. See grammar-json.md.
+ */
+export interface GrammarJson {
+
+    /**
+     * The grammar to match, which must be a concat, or a reference to a rule that's a concat
+     */
+    grammar: GrammarNodeJson;
+
+    /**
+     * Named rules, which may refer to each other and to themselves
+     */
+    rules?: { [name: string]: GrammarNodeJson };
+}
+
+/**
+ * A matcher described in JSON. A string is a literal.
+ */
+export type GrammarNodeJson = string | LiteralJson | RegexJson | BuiltInJson | ConcatJson | FirstOfJson | LongestOfJson |
+    OptionalJson | RepJson | BreakJson | SpanJson | BlockJson | LookaheadJson | RefJson;
+
+export interface LiteralJson {
+    literal: string;
+}
+
+export interface RegexJson {
+
+    /**
+     * Source of the regex. A start anchor is added if there isn't one
+     */
+    regex: string;
+
+    flags?: string;
+}
+
+export interface BuiltInJson {
+    builtIn: "Integer" | "Float" | "LowercaseBoolean";
+}
+
+export interface ConcatJson {
+
+    /**
+     * Steps, in order. Names starting with _ are unbound
+     */
+    concat: { [step: string]: GrammarNodeJson };
+
+    id?: string;
+
+    /**
+     * Default true
+     */
+    consumeWhiteSpace?: boolean;
+
+    skipGaps?: boolean;
+
+    backtrack?: boolean;
+}
+
+export interface FirstOfJson {
+    firstOf: GrammarNodeJson[];
+}
+
+export interface LongestOfJson {
+    longestOf: GrammarNodeJson[];
+}
+
+export interface OptionalJson {
+    optional: GrammarNodeJson;
+}
+
+export interface RepJson {
+
+    rep: GrammarNodeJson;
+
+    /**
+     * Default 0
+     */
+    min?: number;
+
+    /**
+     * Default unbounded
+     */
+    max?: number;
+
+    separator?: GrammarNodeJson;
+
+    /**
+     * Match as few as possible. Default false
+     */
+    lazy?: boolean;
+
+    /**
+     * Default true
+     */
+    consumeWhiteSpace?: boolean;
+}
+
+export interface BreakJson {
+
+    /**
+     * What to skip up to
+     */
+    break: GrammarNodeJson;
+
+    /**
+     * Whether to consume what's skipped up to. Default false
+     */
+    consume?: boolean;
+
+    /**
+     * What must not be found before it
+     */
+    unless?: GrammarNodeJson;
+}
+
+export interface SpanJson {
+    span: string;
+}
+
+export interface BlockJson {
+
+    /**
+     * A C family block in curlies or a parenthesized expression
+     */
+    block: "{}" | "()";
+
+    /**
+     * A concat that must match the contents of a block in curlies
+     */
+    containing?: GrammarNodeJson;
+}
+
+export interface LookaheadJson {
+
+    lookahead: GrammarNodeJson;
+
+    /**
+     * Whether what's looked for must not follow. Default false
+     */
+    negative?: boolean;
+}
+
+export interface RefJson {
+    ref: string;
+}
+
+/**
+ * Thrown when JSON doesn't describe a valid grammar, or a grammar can't be described in JSON
+ */
+export class GrammarJsonError extends MicrogrammarError {
+
+    /**
+     * Create an error
+     * @param path JSON path to the offending value, such as $.rules.list.concat.items
+     * @param reason what's wrong with it
+     */
+    constructor(public readonly path: string, public readonly reason: string) {
+        super(`${path}: ${reason}`);
+    }
+}
+
+const BuiltIns: { [name: string]: MatchingLogic } = { Integer, Float, LowercaseBoolean };
+
+/**
+ * Properties allowed in each kind of node, the first identifying the kind
+ */
+const NodeProperties = [
+    ["literal"],
+    ["regex", "flags"],
+    ["builtIn"],
+    ["concat", "id", "consumeWhiteSpace", "skipGaps", "backtrack"],
+    ["firstOf"],
+    ["longestOf"],
+    ["optional"],
+    ["rep", "min", "max", "separator", "lazy", "consumeWhiteSpace"],
+    ["break", "consume", "unless"],
+    ["span"],
+    ["block", "containing"],
+    ["lookahead", "negative"],
+    ["ref"],
+];
+
+/**
+ * Create a Concat from a grammar described in JSON
+ * @param json grammar, or its JSON text
+ * @return {Concat}
+ */
+export function concatFromJson(json: GrammarJson | string): Concat {
+    if (typeof json === "string") {
+        try {
+            json = JSON.parse(json) as GrammarJson;
+        } catch (e) {
+            throw new GrammarJsonError("$", `Invalid JSON: ${e.message}`);
+        }
+    }
+    checkObject(json, "$", ["grammar", "rules"]);
+    if ((json as GrammarJson).grammar === undefined) {
+        throw new GrammarJsonError("$", "Property grammar is required");
+    }
+    const rules = (json as GrammarJson).rules || {};
+    checkObject(rules, "$.rules");
+    const loader = new JsonLoader(rules);
+    const grammar = loader.load((json as GrammarJson).grammar, "$.grammar");
+    loader.resolver.resolveAll();
+    if (!(grammar instanceof Concat)) {
+        throw new GrammarJsonError("$.grammar", "The grammar must be a concat");
+    }
+    return grammar;
+}
+
+/**
+ * Describe a grammar in JSON. Concats that are recursive are described by rules named after their $id.
+ * Throws a GrammarJsonError for matchers that can't be described, such as computations and vetoes.
+ * @param concat grammar to describe
+ * @return {GrammarJson}
+ */
+export function concatToJson(concat: Concat): GrammarJson {
+    const writer = new JsonWriter();
+    writer.findRecursion(concat, []);
+    const json: GrammarJson = { grammar: writer.write(concat, "$.grammar") };
+    if (writer.ruleNames.length > 0) {
+        json.rules = {};
+        writer.ruleNames.forEach((name, i) => {
+            json.rules[name] = writer.write(writer.ruleMatchers[i], `$.rules${pathKey(name)}`, true);
+        });
+    }
+    return json;
+}
+
+class JsonLoader {
+
+    public readonly resolver: RuleResolver<{ node: GrammarNodeJson, path: string }>;
+
+    constructor(rules: { [name: string]: GrammarNodeJson }) {
+        const located: { [name: string]: { node: GrammarNodeJson, path: string } } = {};
+        Object.keys(rules).forEach(name => located[name] = { node: rules[name], path: `$.rules${pathKey(name)}` });
+        this.resolver = new RuleResolver(located, {
+            isSequence: rule => isObject(rule.node) && (rule.node as ConcatJson).concat !== undefined,
+            compile: (rule, name) => isObject(rule.node) && (rule.node as ConcatJson).concat !== undefined ?
+                this.concatDefinitions(rule.node as ConcatJson, rule.path) :
+                this.load(rule.node, rule.path),
+            cycle: names => new GrammarJsonError(located[names[0]].path,
+                `Rules refer to each other without a concat in between: ${names.join(" -> ")}`),
+        });
+    }
+
+    public load(node: GrammarNodeJson, path: string): MatchingLogic {
+        if (typeof node === "string") {
+            return new Literal(node);
+        }
+        checkObject(node, path);
+        const properties = NodeProperties.filter(p => node[p[0]] !== undefined);
+        if (properties.length !== 1) {
+            throw new GrammarJsonError(path, properties.length === 0 ?
+                `Expected a string or an object with one of ${NodeProperties.map(p => p[0]).join(", ")}` :
+                `Ambiguous node: Found ${properties.map(p => p[0]).join(" and ")}`);
+        }
+        checkObject(node, path, properties[0]);
+        const n = node as any;
+        switch (properties[0][0]) {
+            case "literal":
+                return new Literal(checkType(n.literal, `${path}.literal`, "string"));
+            case "regex":
+                return this.regex(n, path);
+            case "builtIn":
+                if (!BuiltIns.hasOwnProperty(n.builtIn)) {
+                    throw new GrammarJsonError(`${path}.builtIn`, `Expected one of ${Object.keys(BuiltIns).join(", ")}`);
+                }
+                return BuiltIns[n.builtIn];
+            case "concat":
+                return this.resolver.sequence(() => this.concatDefinitions(n, path));
+            case "firstOf":
+                const alternatives = this.alternatives(n.firstOf, `${path}.firstOf`);
+                return new Alt(alternatives[0], alternatives[1], ...alternatives.slice(2));
+            case "longestOf":
+                const candidates = this.alternatives(n.longestOf, `${path}.longestOf`);
+                return new Longest(candidates[0], candidates[1], ...candidates.slice(2));
+            case "optional":
+                return new Opt(this.load(n.optional, `${path}.optional`));
+            case "rep":
+                return this.rep(n, path);
+            case "break":
+                return new Break(this.load(n.break, `${path}.break`),
+                    optionalType(n.consume, `${path}.consume`, "boolean", false),
+                    n.unless === undefined ? undefined : this.load(n.unless, `${path}.unless`));
+            case "span":
+                return new Span(checkType(n.span, `${path}.span`, "string"));
+            case "block":
+                return this.block(n, path);
+            case "lookahead":
+                return new Lookahead(this.load(n.lookahead, `${path}.lookahead`),
+                    !optionalType(n.negative, `${path}.negative`, "boolean", false));
+            case "ref":
+                checkType(n.ref, `${path}.ref`, "string");
+                if (!this.resolver.has(n.ref)) {
+                    throw new GrammarJsonError(`${path}.ref`, `No rule named [${n.ref}]`);
+                }
+                return this.resolver.resolve(n.ref);
+        }
+    }
+
+    public concatDefinitions(n: ConcatJson, path: string): any {
+        checkObject(n, path, NodeProperties[3]);
+        checkObject(n.concat, `${path}.concat`);
+        const definitions: any = {};
+        if (n.id !== undefined) {
+            definitions.$id = checkType(n.id, `${path}.id`, "string");
+        }
+        Object.keys(n.concat).forEach(step => {
+            const stepPath = `${path}.concat${pathKey(step)}`;
+            if (step.charAt(0) === "$" || !/^[_a-zA-Z][_a-zA-Z0-9]*$/.test(step) || isMatchingLogicMember(step)) {
+                throw new GrammarJsonError(stepPath, `Invalid step name [${step}]`);
+            }
+            definitions[step] = this.load(n.concat[step], stepPath);
+        });
+        if (Object.keys(n.concat).length === 0) {
+            throw new GrammarJsonError(`${path}.concat`, "A concat needs at least one step");
+        }
+        if (!optionalType(n.consumeWhiteSpace, `${path}.consumeWhiteSpace`, "boolean", true)) {
+            definitions.$consumeWhiteSpaceBetweenTokens = false;
+        }
+        if (optionalType(n.skipGaps, `${path}.skipGaps`, "boolean", false)) {
+            definitions.$skipGaps = true;
+        }
+        if (optionalType(n.backtrack, `${path}.backtrack`, "boolean", false)) {
+            definitions.$backtrack = true;
+        }
+        return definitions;
+    }
+
+    private alternatives(nodes: GrammarNodeJson[], path: string): MatchingLogic[] {
+        if (!Array.isArray(nodes) || nodes.length < 2) {
+            throw new GrammarJsonError(path, "Expected an array of at least two alternatives");
+        }
+        return nodes.map((node, i) => this.load(node, `${path}[${i}]`));
+    }
+
+    private regex(n: RegexJson, path: string): MatchingLogic {
+        const source = checkType(n.regex, `${path}.regex`, "string");
+        const flags = optionalType(n.flags, `${path}.flags`, "string", "");
+        try {
+            return new Regex(new RegExp(source, flags));
+        } catch (e) {
+            throw new GrammarJsonError(`${path}.regex`, `Invalid regex: ${e.message}`);
+        }
+    }
+
+    private rep(n: RepJson, path: string): MatchingLogic {
+        const item = this.load(n.rep, `${path}.rep`);
+        const sep = n.separator === undefined ? undefined : this.load(n.separator, `${path}.separator`);
+        const min = optionalType(n.min, `${path}.min`, "number", 0);
+        const max = optionalType(n.max, `${path}.max`, "number", Infinity);
+        if (min < 0 || min % 1 !== 0) {
+            throw new GrammarJsonError(`${path}.min`, "Expected a whole number");
+        }
+        if (max !== Infinity && (max < min || max % 1 !== 0)) {
+            throw new GrammarJsonError(`${path}.max`, `Expected a whole number no less than min of ${min}`);
+        }
+        let rep: Repetition;
+        if (max !== Infinity || min > 1) {
+            rep = new Repetition(item, min, sep, max);
+        } else if (sep) {
+            rep = min === 0 ? new RepSep(item, sep) : new Rep1Sep(item, sep);
+        } else {
+            rep = min === 0 ? new Rep(item) : new Rep1(item);
+        }
+        if (optionalType(n.lazy, `${path}.lazy`, "boolean", false)) {
+            rep.nonGreedy();
+        }
+        if (!optionalType(n.consumeWhiteSpace, `${path}.consumeWhiteSpace`, "boolean", true)) {
+            rep.consumeWhiteSpace(false);
+        }
+        return rep;
+    }
+
+    private block(n: BlockJson, path: string): MatchingLogic {
+        if (n.block !== "{}" && n.block !== "()") {
+            throw new GrammarJsonError(`${path}.block`, `Expected "{}" or "()"`);
+        }
+        let inner: MatchingLogic;
+        if (n.containing !== undefined) {
+            inner = this.load(n.containing, `${path}.containing`);
+            if (n.block !== "{}" || !(inner instanceof Concat)) {
+                throw new GrammarJsonError(`${path}.containing`, "Only a block in curlies can contain a concat");
+            }
+        }
+        return blockConcat(n.block, inner);
+    }
+}
+
+class JsonWriter {
+
+    public readonly ruleNames: string[] = [];
+
+    public readonly ruleMatchers: MatchingLogic[] = [];
+
+    /**
+     * Find Concats reached from within themselves, which need to be rules
+     */
+    public findRecursion(ml: MatchingLogic, within: MatchingLogic[]) {
+        ml = isNamedMatcher(ml) ? ml.ml : ml;
+        if (within.indexOf(ml) !== -1) {
+            if (ml instanceof Concat && this.ruleMatchers.indexOf(ml) === -1) {
+                this.ruleMatchers.push(ml);
+                this.ruleNames.push(this.ruleName(ml));
+            }
+            return;
+        }
+        children(ml).forEach(child => this.findRecursion(child, within.concat([ml])));
+    }
+
+    /**
+     * Describe the matcher. Rules are described by reference, except where we're writing the rule itself
+     */
+    public write(ml: MatchingLogic, path: string, definingRule: boolean = false): GrammarNodeJson {
+        ml = isNamedMatcher(ml) ? ml.ml : ml;
+        const rule = this.ruleMatchers.indexOf(ml);
+        if (rule !== -1 && !definingRule) {
+            return { ref: this.ruleNames[rule] };
+        }
+        if (isLiteral(ml)) {
+            return ml.literal;
+        }
+        const builtIn = Object.keys(BuiltIns).filter(name => BuiltIns[name] === ml)[0];
+        if (builtIn) {
+            return { builtIn } as BuiltInJson;
+        }
+        if (ml instanceof Regex) {
+            const regex: RegexJson = { regex: ml.regex.source.replace(/^\^/, "") };
+            const flags = regexFlags(ml.regex);
+            if (flags) {
+                regex.flags = flags;
+            }
+            return regex;
+        }
+        if (ml instanceof Concat) {
+            return this.concat(ml, path);
+        }
+        if (ml instanceof Alt) {
+            return { firstOf: ml.matchers.map((m, i) => this.write(m, `${path}.firstOf[${i}]`)) };
+        }
+        if (ml instanceof Longest) {
+            return { longestOf: ml.matchers.map((m, i) => this.write(m, `${path}.longestOf[${i}]`)) };
+        }
+        if (ml instanceof Opt) {
+            return { optional: this.write(ml.matcher, `${path}.optional`) };
+        }
+        if (ml instanceof Repetition) {
+            const rep: RepJson = { rep: this.write(ml.matcher, `${path}.rep`) };
+            if (ml.min !== 0) {
+                rep.min = ml.min;
+            }
+            if (ml.max !== Infinity) {
+                rep.max = ml.max;
+            }
+            if (ml.sepMatcher) {
+                rep.separator = this.write(ml.sepMatcher, `${path}.separator`);
+            }
+            if (!ml.greedy) {
+                rep.lazy = true;
+            }
+            if (ml.$consumeWhiteSpaceBetweenTokens === false) {
+                rep.consumeWhiteSpace = false;
+            }
+            return rep;
+        }
+        if (isBreak(ml)) {
+            const b: BreakJson = { break: this.write(ml.terminateOn, `${path}.break`) };
+            if (ml.consume) {
+                b.consume = true;
+            }
+            if (ml.badMatcher) {
+                b.unless = this.write(ml.badMatcher, `${path}.unless`);
+            }
+            return b;
+        }
+        if (ml instanceof Span) {
+            return { span: ml.characters };
+        }
+        if (ml instanceof Lookahead) {
+            const lookahead: LookaheadJson = { lookahead: this.write(ml.matcher, `${path}.lookahead`) };
+            if (!ml.positive) {
+                lookahead.negative = true;
+            }
+            return lookahead;
+        }
+        throw new GrammarJsonError(path, `Cannot describe [${ml.$id}] in JSON`);
+    }
+
+    private concat(concat: Concat, path: string): GrammarNodeJson {
+        const block = blockOf(concat);
+        if (block) {
+            return block.inner ?
+                { block: "{}", containing: this.write(block.inner, `${path}.containing`) } as BlockJson :
+                { block: block.kind === "block" ? "{}" : "()" } as BlockJson;
+        }
+        const json: ConcatJson = { concat: {} };
+        const definitions = concat.definitions;
+        if (typeof definitions.$id === "string") {
+            json.id = definitions.$id;
+        }
+        concat.matchSteps.forEach(step => {
+            const stepPath = `${path}.concat${pathKey(step.$id)}`;
+            if (!isMatcher(step)) {
+                throw new GrammarJsonError(stepPath, "Cannot describe a function in JSON");
+            }
+            const ml = (step as Matcher & { ml: MatchingLogic }).ml;
+            json.concat[step.$id] = this.write((definitions.$skipGaps === true && isBreak(ml)) ? ml.terminateOn : ml,
+                stepPath);
+        });
+        if (!concat.$consumeWhiteSpaceBetweenTokens) {
+            json.consumeWhiteSpace = false;
+        }
+        if (definitions.$skipGaps === true) {
+            json.skipGaps = true;
+        }
+        if (definitions.$backtrack === true) {
+            json.backtrack = true;
+        }
+        return json;
+    }
+
+    private ruleName(concat: Concat): string {
+        const base = (typeof concat.definitions.$id === "string" ? concat.definitions.$id : "rule")
+            .replace(/[^_a-zA-Z0-9]/g, "_") || "rule";
+        let name = base;
+        for (let i = 2; this.ruleNames.indexOf(name) !== -1; i++) {
+            name = base + i;
+        }
+        return name;
+    }
+}
+
+/**
+ * Build the Concat that block, blockContaining or parenthesizedExpression would,
+ * so that blockOf recognizes it when the grammar is written back
+ */
+function blockConcat(kind: "{}" | "()", inner?: MatchingLogic): Concat {
+    return Concat.of({
+        $id: kind === "{}" ? "{...}" : "(...)",
+        _lp: kind.charAt(0),
+        block: new CBlock(() => new CFamilyStateMachine(), kind === "{}" ? "block" : "parens", inner),
+        _rp: kind.charAt(1),
+    });
+}
+
+/**
+ * If the Concat is a block, as created by block, blockContaining or parenthesizedExpression, return the CBlock
+ */
+function blockOf(concat: Concat): CBlock {
+    const steps = concat.matchSteps.filter(isMatcher) as Matcher[];
+    if (steps.length !== 3 || steps.length !== concat.matchSteps.length ||
+        ["_lp", "block", "_rp"].some((name, i) => steps[i].name !== name)) {
+        return undefined;
+    }
+    const block = (steps[1] as Matcher & { ml: MatchingLogic }).ml;
+    return block instanceof CBlock ? block : undefined;
+}
+
+function children(ml: MatchingLogic): MatchingLogic[] {
+    if (ml instanceof Concat) {
+        return (ml.matchSteps.filter(isMatcher) as Matcher[]);
+    } else if (ml instanceof Alt || ml instanceof Longest) {
+        return ml.matchers;
+    } else if (ml instanceof Opt || ml instanceof Lookahead) {
+        return [ml.matcher];
+    } else if (ml instanceof Repetition) {
+        return [ml.matcher, ml.sepMatcher].filter(m => !!m);
+    } else if (isBreak(ml)) {
+        return [ml.terminateOn, ml.badMatcher].filter(m => !!m);
+    } else if (ml instanceof CBlock) {
+        return ml.inner ? [ml.inner] : [];
+    }
+    return [];
+}
+
+function isObject(value: any): boolean {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check that the value is an object, with only the given properties if they're specified
+ */
+function checkObject(value: any, path: string, properties?: string[]) {
+    if (!isObject(value)) {
+        throw new GrammarJsonError(path, "Expected an object");
+    }
+    if (properties) {
+        const unknown = Object.keys(value).filter(key => properties.indexOf(key) === -1)[0];
+        if (unknown !== undefined) {
+            throw new GrammarJsonError(`${path}${pathKey(unknown)}`,
+                `Unexpected property: Expected ${properties.join(", ")}`);
+        }
+    }
+}
+
+function checkType<T>(value: T, path: string, type: string): T {
+    if (typeof value !== type) {
+        throw new GrammarJsonError(path, `Expected a ${type}`);
+    }
+    return value;
+}
+
+function optionalType<T>(value: T, path: string, type: string, defaultValue: T): T {
+    return value === undefined ? defaultValue : checkType(value, path, type);
+}
+
+function pathKey(key: string): string {
+    return /^[_a-zA-Z][_a-zA-Z0-9]*$/.test(key) ? `.${key}` : `[${JSON.stringify(key)}]`;
+}
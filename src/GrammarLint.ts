@@ -0,0 +1,198 @@
+import { isBreak } from "./internal/Break";
+import { firstCharactersOf } from "./internal/FirstCharacters";
+import { Matcher, MatchingLogic } from "./Matchers";
+import { Concat, isMatcher, isNamedMatcher, toMatchingLogic } from "./matchers/Concat";
+import { Lookahead } from "./matchers/Lookahead";
+import { MicrogrammarError } from "./MicrogrammarError";
+import { Alt, Longest, Opt } from "./Ops";
+import { isSpecialMember } from "./PatternMatch";
+import { AbstractRegex, isLiteral } from "./Primitives";
+import { Repetition } from "./Rep";
+
+/**
+ * Kind of problem found by lintGrammar:
+ * "nullable-rep": the item of a repetition can match the empty string, so matching fails at run time;
+ * "shadowed-alternative": an alternative can never be chosen, as an earlier one matches whenever it would;
+ * "nested-opt": an Opt directly within an Opt;
+ * "unterminated-break": a Break whose terminator is missing or matches the empty string, so it never skips anything;
+ * "reserved-step-name": a Concat definition whose name means it's taken for something other than a step,
+ * or a function taking a veto's arguments whose name doesn't begin with _, so it's taken as a computation.
+ */
+export type LintRule = "nullable-rep" | "shadowed-alternative" | "nested-opt" | "unterminated-break" | "reserved-step-name";
+
+/**
+ * Problem found by lintGrammar
+ */
+export interface LintWarning {
+
+    rule: LintRule;
+
+    /**
+     * Names of the Concat steps enclosing the matcher, outermost first, joined with ".".
+     * Empty at top level.
+     */
+    path: string;
+
+    matcherId: string;
+
+    message: string;
+}
+
+/**
+ * Thrown by Concat._init when a Concat with $lint set fails linting
+ */
+export class GrammarLintError extends MicrogrammarError {
+
+    constructor(public readonly warnings: LintWarning[]) {
+        super(`Grammar has ${warnings.length} problem(s):\n` +
+            warnings.map(w => `${w.path ? w.path + ": " : ""}${w.message}`).join("\n"));
+    }
+}
+
+/**
+ * Names of Concat definitions that are properties of every matcher, so are never steps
+ */
+const ReservedNames = ["matchPrefix", "canStartWith", "requiredPrefix"];
+
+/**
+ * Configuration understood by Concat
+ */
+const ConfigNames = ["$id", "$consumeWhiteSpaceBetweenTokens", "$skipGaps", "$lazy", "$backtrack", "$backtrackBudget", "$lint"];
+
+/**
+ * Find problems in a grammar without matching anything, by walking its
+ * Concats, Alts, Opts, Reps, Breaks and lookaheads.
+ * Recursive grammars are fine, although lazily initialized Concats can only be checked once initialized.
+ * Set $lint on a Concat's definitions to run this automatically when it's initialized.
+ * @param o grammar: a matcher, Microgrammar or definitions
+ * @return {LintWarning[]}
+ */
+export function lintGrammar(o: any): LintWarning[] {
+    const warnings: LintWarning[] = [];
+    const seen: MatchingLogic[] = [];
+
+    const warn = (rule: LintRule, path: string, matcherId: string, message: string) =>
+        warnings.push({ rule, path, matcherId, message });
+
+    const lint = (ml: MatchingLogic, path: string) => {
+        if (!ml || seen.indexOf(ml) !== -1) {
+            return;
+        }
+        seen.push(ml);
+        if (isNamedMatcher(ml)) {
+            lint(ml.ml, path);
+        } else if (ml instanceof Concat) {
+            lintStepNames(ml, message => warn("reserved-step-name", path, ml.$id, message));
+            (ml.matchSteps.filter(isMatcher) as Matcher[]).forEach(step =>
+                lint(step, path ? `${path}.${step.name}` : step.name));
+        } else if (ml instanceof Alt) {
+            ml.matchers.forEach((later, j) => {
+                const shadowing = ml.matchers.slice(0, j).filter(earlier => shadows(earlier, later))[0];
+                if (shadowing) {
+                    warn("shadowed-alternative", path, ml.$id,
+                        `Alternative ${j + 1} [${later.$id}] can never be chosen, as [${shadowing.$id}] matches first`);
+                }
+            });
+            ml.matchers.forEach(m => lint(m, path));
+        } else if (ml instanceof Longest) {
+            ml.matchers.forEach(m => lint(m, path));
+        } else if (ml instanceof Opt) {
+            if (unnamed(ml.matcher) instanceof Opt) {
+                warn("nested-opt", path, ml.$id, `Opt [${ml.$id}] directly contains another Opt`);
+            }
+            lint(ml.matcher, path);
+        } else if (ml instanceof Repetition) {
+            if (nullable(ml.matcher)) {
+                warn("nullable-rep", path, ml.$id,
+                    `Item [${ml.matcher.$id}] of repetition can match the empty string`);
+            }
+            lint(ml.matcher, path);
+            lint(ml.sepMatcher, path);
+        } else if (isBreak(ml)) {
+            if (!ml.terminateOn || nullable(ml.terminateOn)) {
+                // Our id is that of our terminator
+                warn("unterminated-break", path, ml.terminateOn ? ml.$id : "Break",
+                    "Break has no terminator that consumes input, so never skips anything");
+            }
+            lint(ml.terminateOn, path);
+            lint(ml.badMatcher, path);
+        } else if (ml instanceof Lookahead) {
+            lint(ml.matcher, path);
+        }
+    };
+
+    lint(toMatchingLogic(o), "");
+    return warnings;
+}
+
+function lintStepNames(concat: Concat, warn: (message: string) => void) {
+    for (const name of Object.keys(concat.definitions)) {
+        const def = concat.definitions[name];
+        if (ReservedNames.indexOf(name) !== -1) {
+            warn(`Definition [${name}] is ignored, as every matcher has a property of that name`);
+        } else if (name.charAt(0) === "$" && ConfigNames.indexOf(name) === -1 && looksLikeMatcher(def)) {
+            warn(`Definition [${name}] is taken as configuration, not a step, as its name begins with $`);
+        } else if (typeof def === "function" && !isSpecialMember(name) && def.length > 1) {
+            // Vetoes are passed the match and parse contexts as well as the bindings. Computations get only the bindings
+            warn(`Function [${name}] is taken as a computation, not a veto, as its name doesn't begin with _`);
+        }
+    }
+}
+
+function looksLikeMatcher(def: any): boolean {
+    return typeof def === "string" || def instanceof RegExp || !!(def && def.matchPrefix);
+}
+
+function unnamed(ml: MatchingLogic): MatchingLogic {
+    return isNamedMatcher(ml) ? unnamed(ml.ml) : ml;
+}
+
+/**
+ * Can this matcher match the empty string? If we don't know, say not, so as not to warn wrongly
+ */
+function nullable(ml: MatchingLogic, visiting: MatchingLogic[] = []): boolean {
+    if (!ml || visiting.indexOf(ml) !== -1) {
+        return false;
+    }
+    const inner = visiting.concat([ml]);
+    if (isNamedMatcher(ml)) {
+        return nullable(ml.ml, inner);
+    } else if (isLiteral(ml)) {
+        return ml.literal === "";
+    } else if (ml instanceof AbstractRegex) {
+        // An empty regex match is a failure
+        return false;
+    } else if (ml instanceof Concat) {
+        const steps = ml.matchSteps.filter(isMatcher) as Matcher[];
+        // An uninitialized lazy Concat has no steps yet
+        return steps.length > 0 && steps.every(step => nullable(step, inner));
+    } else if (ml instanceof Alt || ml instanceof Longest) {
+        return ml.matchers.some(m => nullable(m, inner));
+    } else if (ml instanceof Opt || ml instanceof Lookahead) {
+        return true;
+    } else if (ml instanceof Repetition) {
+        return ml.min === 0 || nullable(ml.matcher, inner);
+    } else if (isBreak(ml)) {
+        return !ml.consume || nullable(ml.terminateOn, inner);
+    }
+    const first = firstCharactersOf(ml);
+    return !!first && first.canMatchEmpty;
+}
+
+/**
+ * Does the earlier alternative always match when the later one would?
+ */
+function shadows(earlier: MatchingLogic, later: MatchingLogic): boolean {
+    const a = unnamed(earlier);
+    const b = unnamed(later);
+    if (a === b || nullable(a)) {
+        return true;
+    }
+    if (isLiteral(a) && isLiteral(b)) {
+        return b.literal.indexOf(a.literal) === 0;
+    }
+    if (a instanceof AbstractRegex && b instanceof AbstractRegex) {
+        return a.regex.toString() === b.regex.toString();
+    }
+    return false;
+}
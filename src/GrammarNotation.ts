@@ -0,0 +1,417 @@
+import { formatCodeFrame } from "./DismatchFormatter";
+import { LinePositions } from "./internal/LinePositions";
+import { RuleResolver } from "./internal/RuleResolver";
+import { MatchingLogic } from "./Matchers";
+import { Concat, isMatchingLogicMember, toMatchingLogic } from "./matchers/Concat";
+import { Lookahead } from "./matchers/Lookahead";
+import { MicrogrammarError } from "./MicrogrammarError";
+import { Alt, Opt } from "./Ops";
+import { Literal, Regex } from "./Primitives";
+import { Rep, Rep1 } from "./Rep";
+
+/**
+ * Options for Microgrammar.fromGrammar
+ */
+export interface GrammarNotationOptions {
+
+    /**
+     * Rule to match. Default the first
+     */
+    start?: string;
+}
+
+/**
+ * Thrown when grammar notation can't be parsed, or refers to rules that don't exist
+ */
+export class GrammarSyntaxError extends MicrogrammarError {
+
+    /**
+     * Create an error
+     * @param reason what's wrong
+     * @param offset offset in the grammar text
+     * @param line line of the offset, from 1
+     * @param column column of the offset, from 1
+     * @param grammar the grammar text
+     */
+    constructor(public readonly reason: string,
+                public readonly offset: number,
+                public readonly line: number,
+                public readonly column: number,
+                grammar: string) {
+        super(`${reason} at line ${line}, column ${column}\n${formatCodeFrame(grammar, offset)}`);
+    }
+}
+
+/**
+ * Create a Concat from rules in a PEG-like notation, such as
+ * <pre>
+ * list = "(" items:(item ("," item)*)? ")" ;
+ * item = list | /[a-z]+/ ;
+ * </pre>
+ * See the README for the notation.
+ * @param grammar rules
+ * @param components matchers that rules may refer to as if they were rules
+ * @param options options
+ * @return {Concat}
+ */
+export function fromGrammar(grammar: string, components: object = {}, options: GrammarNotationOptions = {}): Concat {
+    return new GrammarNotationParser(grammar, components).parse(options);
+}
+
+type Expression = LiteralExpression | RegexExpression | ReferenceExpression | SequenceExpression |
+    ChoiceExpression | RepetitionExpression | LookaheadExpression;
+
+interface LiteralExpression {
+    kind: "literal";
+    text: string;
+}
+
+interface RegexExpression {
+    kind: "regex";
+    regex: RegExp;
+}
+
+interface ReferenceExpression {
+    kind: "reference";
+    name: string;
+    offset: number;
+}
+
+interface SequenceExpression {
+    kind: "sequence";
+    items: Array<{ label?: string, offset: number, expression: Expression }>;
+}
+
+interface ChoiceExpression {
+    kind: "choice";
+    alternatives: Expression[];
+}
+
+interface RepetitionExpression {
+    kind: "repetition";
+    operator: "*" | "+" | "?";
+    expression: Expression;
+}
+
+interface LookaheadExpression {
+    kind: "lookahead";
+    positive: boolean;
+    expression: Expression;
+}
+
+interface Token {
+    kind: "identifier" | "string" | "regex" | "operator" | "end";
+    text: string;
+    offset: number;
+    value?: any;
+}
+
+const Definers = ["=", "<-", "::="];
+
+const Escapes = { n: "\n", r: "\r", t: "\t" };
+
+const Operators = ["::=", "<-", "=", "|", "*", "+", "?", "(", ")", ";", ":", "&", "!"];
+
+class GrammarNotationParser {
+
+    private readonly tokens: Token[];
+
+    private position = 0;
+
+    // No prototype, so rules can have any name
+    private readonly rules: { [name: string]: { expression: Expression, offset: number } } = Object.create(null);
+
+    private readonly ruleNames: string[] = [];
+
+    private resolver: RuleResolver<{ expression: Expression, offset: number }>;
+
+    constructor(private readonly grammar: string, private readonly components: object) {
+        this.tokens = this.tokenize();
+    }
+
+    public parse(options: GrammarNotationOptions): Concat {
+        while (this.peek().kind !== "end") {
+            this.parseRule();
+        }
+        if (this.ruleNames.length === 0) {
+            throw this.error("Expected a rule", this.peek().offset);
+        }
+        const start = options.start || this.ruleNames[0];
+        if (!hasOwn(this.rules, start)) {
+            throw this.error(`No rule named [${start}] to start with`, 0);
+        }
+        this.resolver = new RuleResolver(this.rules, {
+            isSequence: rule => isSequence(rule.expression),
+            compile: (rule, name) => isSequence(rule.expression) ?
+                this.definitions(rule.expression as SequenceExpression) :
+                this.compile(rule.expression),
+            cycle: names => this.error(
+                `Rules refer to each other without a sequence in between: ${names.join(" -> ")}`,
+                this.rules[names[0]].offset),
+        });
+        const matchers = this.resolver.resolveAll();
+        const matcher = matchers[start];
+        return matcher instanceof Concat ? matcher : Concat.of({ $id: start, [start]: matcher });
+    }
+
+    private parseRule() {
+        const name = this.peek();
+        if (name.kind !== "identifier" || !this.isDefiner(this.peek(1))) {
+            throw this.error("Expected a rule, such as name = \"literal\"", name.offset);
+        }
+        if (hasOwn(this.rules, name.text)) {
+            throw this.error(`Rule [${name.text}] is already defined`, name.offset);
+        }
+        if (isMatchingLogicMember(name.text)) {
+            throw this.error(`[${name.text}] is reserved, so can't name a rule`, name.offset);
+        }
+        this.position += 2;
+        this.rules[name.text] = { expression: this.parseChoice(), offset: name.offset };
+        this.ruleNames.push(name.text);
+        if (this.peek().text === ";" && this.peek().kind === "operator") {
+            this.position++;
+        }
+    }
+
+    private parseChoice(): Expression {
+        const alternatives = [this.parseSequence()];
+        while (this.isOperator("|")) {
+            this.position++;
+            alternatives.push(this.parseSequence());
+        }
+        return alternatives.length === 1 ? alternatives[0] : { kind: "choice", alternatives };
+    }
+
+    private parseSequence(): Expression {
+        const items: SequenceExpression["items"] = [];
+        while (!this.endsSequence()) {
+            const offset = this.peek().offset;
+            let label: string;
+            if (this.peek().kind === "identifier" && this.peek(1).text === ":" && this.peek(1).kind === "operator") {
+                label = this.peek().text;
+                if (isMatchingLogicMember(label)) {
+                    throw this.error(`[${label}] is reserved, so can't be a label`, offset);
+                }
+                this.position += 2;
+            }
+            items.push({ label, offset, expression: this.parsePrefixed() });
+        }
+        if (items.length === 0) {
+            throw this.error("Expected a literal, regex, rule name or (", this.peek().offset);
+        }
+        return (items.length === 1 && !items[0].label) ? items[0].expression : { kind: "sequence", items };
+    }
+
+    private parsePrefixed(): Expression {
+        if (this.isOperator("&") || this.isOperator("!")) {
+            const positive = this.next().text === "&";
+            return { kind: "lookahead", positive, expression: this.parsePrefixed() };
+        }
+        let expression = this.parsePrimary();
+        while (this.isOperator("*") || this.isOperator("+") || this.isOperator("?")) {
+            expression = { kind: "repetition", operator: this.next().text as "*" | "+" | "?", expression };
+        }
+        return expression;
+    }
+
+    private parsePrimary(): Expression {
+        const token = this.next();
+        switch (token.kind) {
+            case "string":
+                return { kind: "literal", text: token.value };
+            case "regex":
+                return { kind: "regex", regex: token.value };
+            case "identifier":
+                return { kind: "reference", name: token.text, offset: token.offset };
+            case "operator":
+                if (token.text === "(") {
+                    const expression = this.parseChoice();
+                    if (!this.isOperator(")")) {
+                        throw this.error("Expected )", this.peek().offset);
+                    }
+                    this.position++;
+                    return expression;
+                }
+        }
+        throw this.error("Expected a literal, regex, rule name or (", token.offset);
+    }
+
+    /**
+     * Does the next token end a sequence? A rule name followed by = starts the next rule.
+     */
+    private endsSequence(): boolean {
+        const token = this.peek();
+        return token.kind === "end" ||
+            (token.kind === "operator" && ["|", ")", ";"].indexOf(token.text) !== -1) ||
+            (token.kind === "identifier" && this.isDefiner(this.peek(1)));
+    }
+
+    private compile(expression: Expression): MatchingLogic {
+        switch (expression.kind) {
+            case "literal":
+                return new Literal(expression.text);
+            case "regex":
+                return new Regex(expression.regex);
+            case "reference":
+                return this.resolve(expression);
+            case "sequence":
+                return this.resolver.sequence(() => this.definitions(expression));
+            case "choice":
+                const alternatives = expression.alternatives.map(a => this.compile(a));
+                return new Alt(alternatives[0], alternatives[1], ...alternatives.slice(2));
+            case "repetition":
+                const repeated = this.compile(expression.expression);
+                return expression.operator === "*" ? new Rep(repeated) :
+                    expression.operator === "+" ? new Rep1(repeated) :
+                        new Opt(repeated);
+            case "lookahead":
+                return new Lookahead(this.compile(expression.expression), expression.positive);
+        }
+    }
+
+    /**
+     * Return Concat definitions for the sequence. Items are named by their labels,
+     * or, if they refer to a rule, by its name, numbered from 2 if it's referred to again.
+     * Other items are unbound.
+     */
+    private definitions(sequence: SequenceExpression): any {
+        const definitions = {};
+        let anonymous = 0;
+        sequence.items.forEach(item => {
+            let name = item.label;
+            const reference = referenceIn(item.expression);
+            if (name) {
+                if (hasOwn(definitions, name)) {
+                    throw this.error(`Name [${name}] is already used in this sequence`, item.offset);
+                }
+            } else if (reference) {
+                name = reference;
+                for (let i = 2; hasOwn(definitions, name); i++) {
+                    name = reference + i;
+                }
+            } else {
+                name = `_${anonymous++}`;
+            }
+            definitions[name] = this.compile(item.expression);
+        });
+        return definitions;
+    }
+
+    private resolve(reference: ReferenceExpression): MatchingLogic {
+        if (this.resolver.has(reference.name)) {
+            return this.resolver.resolve(reference.name);
+        }
+        if (hasOwn(this.components, reference.name)) {
+            return toMatchingLogic(this.components[reference.name]);
+        }
+        throw this.error(`No rule named [${reference.name}]`, reference.offset);
+    }
+
+    private tokenize(): Token[] {
+        const tokens: Token[] = [];
+        const text = this.grammar;
+        let offset = 0;
+        while (true) {
+            // Skip whitespace and comments
+            const skipped = /^(\s|#[^\n]*|\/\/[^\n]*)*/.exec(text.substr(offset))[0];
+            offset += skipped.length;
+            if (offset >= text.length) {
+                tokens.push({ kind: "end", text: "", offset });
+                return tokens;
+            }
+            const rest = text.substr(offset);
+            const identifier = /^[a-zA-Z_][a-zA-Z0-9_]*/.exec(rest);
+            const operator = Operators.filter(op => rest.indexOf(op) === 0)[0];
+            let token: Token;
+            if (identifier) {
+                token = { kind: "identifier", text: identifier[0], offset };
+            } else if (rest.charAt(0) === "\"" || rest.charAt(0) === "'") {
+                token = this.stringToken(rest, offset);
+            } else if (rest.charAt(0) === "/") {
+                token = this.regexToken(rest, offset);
+            } else if (operator) {
+                token = { kind: "operator", text: operator, offset };
+            } else {
+                throw this.error(`Unexpected character [${rest.charAt(0)}]`, offset);
+            }
+            tokens.push(token);
+            offset += token.text.length;
+        }
+    }
+
+    private stringToken(rest: string, offset: number): Token {
+        const quote = rest.charAt(0);
+        const match = new RegExp(`^${quote}(?:[^${quote}\\\\\\n]|\\\\.)*${quote}`).exec(rest);
+        if (!match) {
+            throw this.error("Unterminated literal", offset);
+        }
+        const value = match[0].slice(1, -1).replace(/\\(u[0-9a-fA-F]{4}|.)/g, (escape, c: string) =>
+            c.length > 1 ? String.fromCharCode(parseInt(c.substr(1), 16)) : (Escapes[c] || c));
+        if (value.length === 0) {
+            throw this.error("Literals can't be empty", offset);
+        }
+        return { kind: "string", text: match[0], offset, value };
+    }
+
+    private regexToken(rest: string, offset: number): Token {
+        const match = /^\/((?:[^\/\\\[\n]|\\.|\[(?:[^\]\\\n]|\\.)*\])+)\/([gimsuy]*)/.exec(rest);
+        if (!match) {
+            throw this.error("Unterminated regex", offset);
+        }
+        try {
+            const regex = new RegExp(match[1], match[2]);
+            return { kind: "regex", text: match[0], offset, value: regex };
+        } catch (e) {
+            throw this.error(`Invalid regex: ${e.message}`, offset);
+        }
+    }
+
+    private peek(ahead: number = 0): Token {
+        return this.tokens[Math.min(this.position + ahead, this.tokens.length - 1)];
+    }
+
+    private next(): Token {
+        const token = this.peek();
+        this.position = Math.min(this.position + 1, this.tokens.length - 1);
+        return token;
+    }
+
+    private isOperator(text: string): boolean {
+        return this.peek().kind === "operator" && this.peek().text === text;
+    }
+
+    private isDefiner(token: Token): boolean {
+        return token.kind === "operator" && Definers.indexOf(token.text) !== -1;
+    }
+
+    private error(reason: string, offset: number): GrammarSyntaxError {
+        const positions = new LinePositions();
+        positions.record(this.grammar);
+        const position = positions.positionOf(offset);
+        return new GrammarSyntaxError(reason, offset, position.line, position.column, this.grammar);
+    }
+}
+
+/**
+ * Does the expression compile to a Concat?
+ */
+function isSequence(expression: Expression): boolean {
+    return expression.kind === "sequence";
+}
+
+/**
+ * Return the name of the rule the expression refers to, possibly repeated or optional
+ */
+function referenceIn(expression: Expression): string {
+    while (expression.kind === "repetition") {
+        expression = expression.expression;
+    }
+    return expression.kind === "reference" ? expression.name : undefined;
+}
+
+/**
+ * Does the object have a property of this name of its own? Names may be those of Object.prototype members
+ */
+function hasOwn(o: object, name: string): boolean {
+    return Object.prototype.hasOwnProperty.call(o, name);
+}
@@ -39,6 +39,14 @@ export interface InputState {
      */
     skipTo(what: string): Skipped;
 
+    /**
+     * Skip to before the first occurrence of any of these patterns. Exhaust input if necessary.
+     * Return tuple of what was skipped and the resulting InputState.
+     * Optional: if not implemented, we fall back to skipWhile
+     * @param what what to skip to
+     */
+    skipToAny?(what: string[]): Skipped;
+
     /**
      * Skip input while it matches the given function
      * @param skip function to test characters
@@ -0,0 +1,32 @@
+import { MatchingLogic } from "./Matchers";
+import { MicrogrammarError } from "./MicrogrammarError";
+
+/**
+ * Why a matching run was aborted
+ */
+export type MatchAbortReason = "invocations" | "deadline" | "cancelled";
+
+const Descriptions = {
+    invocations: "Maximum matchPrefix invocations exceeded",
+    deadline: "Deadline passed",
+    cancelled: "Cancelled",
+};
+
+/**
+ * Thrown when a matching run exceeds its budget or is cancelled.
+ * See MatchingOptions.
+ */
+export class MatchAbortedError extends MicrogrammarError {
+
+    /**
+     * Create an error
+     * @param reason why the run was aborted
+     * @param offset offset the run had reached
+     * @param matcher matcher that was about to run
+     */
+    constructor(public readonly reason: MatchAbortReason,
+                public readonly offset: number,
+                public readonly matcher: MatchingLogic) {
+        super(`${Descriptions[reason]} at offset ${offset} in matcher [${matcher.$id}]`);
+    }
+}
@@ -17,17 +17,116 @@ export interface MatchPrefixResult {
 
 }
 
+/**
+ * Report of a failure to match. Reports form a tree:
+ * the children of a report are the failures of nested matchers that caused it.
+ */
 export class MatchFailureReport implements MatchPrefixResult {
 
+    /**
+     * Failures of nested matchers that caused this failure
+     */
+    public readonly children: MatchFailureReport[];
+
+    /**
+     * Furthest offset at which any matcher in this tree of failures failed.
+     * Computed once, from those of the children, so walking the tree is linear
+     */
+    public readonly furthestOffset: number;
+
+    /**
+     * Create a report
+     * @param $matcherId id of the matcher that failed
+     * @param $offset offset at which the matcher tried to match
+     * @param capturedStructure structure captured before the failure
+     * @param cause description of the failure, or the failure of a nested matcher that caused it
+     * @param children failures of nested matchers that caused this failure
+     * @param expected what the matcher expected to see at its offset, if it has no children:
+     * for example, a literal or regex. Defaults to the matcher id.
+     * @param step name of the step that failed, if the matcher is a Concat
+     */
     public constructor(public readonly $matcherId: string,
                        public readonly $offset: number,
                        capturedStructure?: {},
-                       private readonly cause?: string | MatchFailureReport) {
+                       private readonly cause?: string | MatchFailureReport,
+                       children: MatchFailureReport[] = [],
+                       private readonly expected?: string,
+                       public readonly step?: string) {
+        this.children = isMatchFailureReport(cause) ?
+            [cause].concat(children) :
+            children;
+        this.furthestOffset = this.children.reduce((furthest, child) => Math.max(furthest, child.furthestOffset),
+            $offset);
     }
 
     get description(): string {
-        return `Match failed on ${this.$matcherId}: ${this.cause}`;
+        const cause = isMatchFailureReport(this.cause) ? this.cause.description : this.cause;
+        return `Match failed on ${this.$matcherId}: ${cause}`;
     }
+
+    /**
+     * What the matchers that failed at the furthest offset expected to see there, without duplicates:
+     * literals in backticks, regexes between slashes and otherwise matcher ids
+     */
+    get expectedAtFurthest(): string[] {
+        const furthest = this.furthestOffset;
+        const expected: string[] = [];
+        const collect = (report: MatchFailureReport) => {
+            if (report.furthestOffset !== furthest) {
+                return;
+            }
+            if (report.children.length === 0) {
+                const what = report.expected || report.$matcherId;
+                if (expected.indexOf(what) === -1) {
+                    expected.push(what);
+                }
+            }
+            report.children.forEach(collect);
+        };
+        collect(this);
+        return expected;
+    }
+
+    /**
+     * Names of the Concat steps that led to the furthest failure, outermost first
+     */
+    get stepsToFurthest(): string[] {
+        const furthest = this.furthestOffset;
+        const steps: string[] = [];
+        let report: MatchFailureReport = this;
+        while (report) {
+            if (report.step !== undefined) {
+                steps.push(report.step);
+            }
+            report = report.children.filter(child => child.furthestOffset === furthest)[0];
+        }
+        return steps;
+    }
+
+    /**
+     * Describe where matching got furthest and what was expected there:
+     * for example, "at offset 412 expected one of `</version>`, /[a-z]+/"
+     */
+    get furthestFailure(): string {
+        const expected = this.expectedAtFurthest;
+        return `at offset ${this.furthestOffset} expected ` +
+            (expected.length === 1 ? expected[0] : `one of ${expected.join(", ")}`);
+    }
+}
+
+export function isMatchFailureReport(mpr: any): mpr is MatchFailureReport {
+    return mpr instanceof MatchFailureReport;
+}
+
+/**
+ * Return a report of this failure for a tree of failures
+ * @param mpr failed result, which may not be a MatchFailureReport if it came from a custom matcher
+ * @return {MatchFailureReport}
+ */
+export function toFailureReport(mpr: MatchPrefixResult): MatchFailureReport {
+    return isMatchFailureReport(mpr) ?
+        mpr :
+        new MatchFailureReport(mpr.$matcherId, mpr.$offset, {}, (mpr as any).description);
 }
 
 /**
@@ -0,0 +1,152 @@
+import { MatchingLogic } from "./Matchers";
+import { isSuccessfulMatch, MatchPrefixResult } from "./MatchPrefixResult";
+import { MatchTracer } from "./MatchTracer";
+
+/**
+ * Statistics for a matcher in a particular place in a grammar
+ */
+export interface ProfileEntry {
+
+    /**
+     * Names of the Concat steps enclosing the matcher, outermost first, joined with ".".
+     * Empty for a top level matcher.
+     */
+    path: string;
+
+    matcherId: string;
+
+    invocations: number;
+
+    successes: number;
+
+    failures: number;
+
+    /**
+     * Invocations abandoned before returning, as when a stream must wait for more input and retry.
+     * These aren't counted as invocations, and their time isn't counted
+     */
+    abandoned: number;
+
+    /**
+     * Milliseconds spent in the matcher, including matchers it invoked
+     */
+    time: number;
+
+    /**
+     * Milliseconds spent in the matcher itself, excluding matchers it invoked
+     */
+    selfTime: number;
+}
+
+/**
+ * Field to sort a profile report by, descending
+ */
+export type ProfileSortKey = "selfTime" | "time" | "invocations" | "failures";
+
+/**
+ * Invocation in progress
+ */
+interface Frame {
+    key: string;
+    entry: ProfileEntry;
+    path: string;
+    start: number;
+    childTime: number;
+}
+
+/**
+ * MatchTracer that gathers statistics for each matcher, keyed by Concat step path and $id,
+ * to find the hotspots of a grammar. Use it as MatchingOptions.tracer.
+ * Invocations satisfied by memoization count, taking next to no time.
+ * Invocations abandoned while streaming are only counted as abandoned, as they're retried.
+ */
+export class MatchProfiler implements MatchTracer {
+
+    private entries: { [key: string]: ProfileEntry } = {};
+
+    /**
+     * Number of invocations of each key in progress, so recursive invocations don't count time twice
+     */
+    private active: { [key: string]: number } = {};
+
+    private stack: Frame[] = [];
+
+    /**
+     * Create a profiler
+     * @param clock returns the current time in milliseconds.
+     * Defaults to performance.now() if available, otherwise Date.now()
+     */
+    constructor(private readonly clock: () => number = defaultClock()) {
+    }
+
+    public enter(matcher: MatchingLogic, offset: number, step?: string): void {
+        const parentPath = this.stack.length > 0 ? this.stack[this.stack.length - 1].path : "";
+        const path = step === undefined ?
+            parentPath :
+            (parentPath ? parentPath + "." + step : step);
+        const key = `${path} ${matcher.$id}`;
+        if (!this.entries[key]) {
+            this.entries[key] = {
+                path, matcherId: matcher.$id,
+                invocations: 0, successes: 0, failures: 0, abandoned: 0, time: 0, selfTime: 0,
+            };
+        }
+        const entry = this.entries[key];
+        ++entry.invocations;
+        this.active[key] = (this.active[key] || 0) + 1;
+        this.stack.push({ key, entry, path, start: this.clock(), childTime: 0 });
+    }
+
+    public exit(matcher: MatchingLogic, offset: number, result: MatchPrefixResult): void {
+        const frame = this.stack.pop();
+        if (result === undefined) {
+            --frame.entry.invocations;
+            ++frame.entry.abandoned;
+            --this.active[frame.key];
+            return;
+        }
+        const elapsed = this.clock() - frame.start;
+        if (isSuccessfulMatch(result)) {
+            ++frame.entry.successes;
+        } else {
+            ++frame.entry.failures;
+        }
+        frame.entry.selfTime += elapsed - frame.childTime;
+        if (--this.active[frame.key] === 0) {
+            frame.entry.time += elapsed;
+        }
+        if (this.stack.length > 0) {
+            this.stack[this.stack.length - 1].childTime += elapsed;
+        }
+    }
+
+    /**
+     * Return statistics for each matcher, hottest first
+     * @param sortBy field to sort by, descending
+     * @return {ProfileEntry[]}
+     */
+    public report(sortBy: ProfileSortKey = "selfTime"): ProfileEntry[] {
+        return Object.keys(this.entries)
+            .map(key => this.entries[key])
+            .sort((a, b) => b[sortBy] - a[sortBy]);
+    }
+
+    /**
+     * Return the report as a table, one matcher per line, hottest first
+     * @param sortBy field to sort by, descending
+     * @return {string}
+     */
+    public toText(sortBy: ProfileSortKey = "selfTime"): string {
+        const header = "self ms\ttotal ms\tcalls\tmatched\tfailed\tabandoned\tmatcher";
+        return [header].concat(this.report(sortBy).map(e =>
+            [e.selfTime.toFixed(3), e.time.toFixed(3), e.invocations, e.successes, e.failures, e.abandoned,
+                e.path ? `${e.path}: ${e.matcherId}` : e.matcherId].join("\t")))
+            .join("\n");
+    }
+}
+
+function defaultClock(): () => number {
+    return (typeof performance !== "undefined") ?
+        () => performance.now() :
+        () => Date.now();
+}
@@ -0,0 +1,166 @@
+import { MatchingLogic } from "./Matchers";
+import { isSuccessfulMatch, MatchPrefixResult } from "./MatchPrefixResult";
+
+/**
+ * Told about every matchPrefix invocation in a matching run, including those of nested matchers.
+ * Calls nest: every enter is followed by the exit of the same invocation,
+ * after the enters and exits of the invocations it makes.
+ * If an invocation is abandoned, because the run is aborted or a stream must wait for more input,
+ * it still exits, without a result. Streams retry abandoned invocations when more input arrives.
+ * See MatchingOptions.tracer.
+ */
+export interface MatchTracer {
+
+    /**
+     * The matcher is about to be invoked
+     * @param matcher matcher
+     * @param offset offset at which it's invoked
+     * @param step name of the Concat step it's matching, if any
+     */
+    enter(matcher: MatchingLogic, offset: number, step?: string): void;
+
+    /**
+     * The matcher has returned, or been abandoned
+     * @param matcher matcher
+     * @param offset offset at which it was invoked
+     * @param result its result, or undefined if it was abandoned
+     */
+    exit(matcher: MatchingLogic, offset: number, result: MatchPrefixResult): void;
+}
+
+/**
+ * A traced matchPrefix invocation
+ */
+export interface TraceNode {
+
+    matcherId: string;
+
+    offset: number;
+
+    matched: boolean;
+
+    /**
+     * Length of the match, if matched
+     */
+    length?: number;
+
+    /**
+     * Invocations made by this one, in order
+     */
+    children: TraceNode[];
+}
+
+/**
+ * Options for a TraceRecorder
+ */
+export interface TraceRecorderOptions {
+
+    /**
+     * Record only one in this many top level invocations, with everything they invoke,
+     * so tracing can be left on for large inputs. Default 1, recording every invocation.
+     */
+    sampleEvery?: number;
+
+    /**
+     * Keep only this many of the most recently recorded top level invocations. Default unlimited.
+     */
+    maxRoots?: number;
+}
+
+/**
+ * MatchTracer that records invocations as a tree, for export as JSON or as indented text.
+ * Top level invocations, such as trying a microgrammar at each position in the input, are the roots.
+ * Abandoned invocations are left out, as streams retry them.
+ */
+export class TraceRecorder implements MatchTracer {
+
+    /**
+     * Recorded top level invocations, in order
+     */
+    public readonly roots: TraceNode[] = [];
+
+    /**
+     * Invocations in progress that we're recording, outermost first
+     */
+    private stack: TraceNode[] = [];
+
+    /**
+     * Depth of invocations in progress that we're skipping
+     */
+    private skipping = 0;
+
+    private seen = 0;
+
+    constructor(private readonly options: TraceRecorderOptions = {}) {
+    }
+
+    public enter(matcher: MatchingLogic, offset: number): void {
+        if (this.skipping > 0 || (this.stack.length === 0 && this.seen++ % (this.options.sampleEvery || 1) !== 0)) {
+            ++this.skipping;
+            return;
+        }
+        const node: TraceNode = { matcherId: matcher.$id, offset, matched: false, children: [] };
+        if (this.stack.length > 0) {
+            this.stack[this.stack.length - 1].children.push(node);
+        } else {
+            this.roots.push(node);
+            if (this.options.maxRoots !== undefined && this.roots.length > this.options.maxRoots) {
+                this.roots.shift();
+            }
+        }
+        this.stack.push(node);
+    }
+
+    public exit(matcher: MatchingLogic, offset: number, result: MatchPrefixResult): void {
+        if (this.skipping > 0) {
+            if (--this.skipping === 0 && result === undefined) {
+                // The invocation will be retried, so should be sampled the same way
+                --this.seen;
+            }
+            return;
+        }
+        const node = this.stack.pop();
+        if (result === undefined) {
+            this.forget(node);
+        } else if (isSuccessfulMatch(result)) {
+            node.matched = true;
+            node.length = result.match.$matched.length;
+        }
+    }
+
+    /**
+     * Return the recorded trees, so that JSON.stringify of a recorder gives its trees
+     */
+    public toJSON(): TraceNode[] {
+        return this.roots;
+    }
+
+    /**
+     * Return the recorded trees as text, one invocation per line, indented under the invocation that made it.
+     * For example:
+     * Concat{a,b} at 0 matched 3
+     *   Literal[a] at 0 matched 1
+     *   Literal[b] at 2 matched 1
+     */
+    public toText(): string {
+        const lines: string[] = [];
+        const addLines = (node: TraceNode, indent: string) => {
+            lines.push(`${indent}${node.matcherId} at ${node.offset} ` +
+                (node.matched ? `matched ${node.length}` : "failed"));
+            node.children.forEach(child => addLines(child, indent + "  "));
+        };
+        this.roots.forEach(root => addLines(root, ""));
+        return lines.join("\n");
+    }
+
+    /**
+     * Forget an abandoned invocation: a stream will retry it, and an aborted run is over
+     */
+    private forget(node: TraceNode): void {
+        const siblings = this.stack.length > 0 ? this.stack[this.stack.length - 1].children : this.roots;
+        siblings.splice(siblings.indexOf(node), 1);
+        if (this.stack.length === 0) {
+            --this.seen;
+        }
+    }
+}
@@ -1,5 +1,5 @@
 import { InputState } from "./InputState";
-import { MatchPrefixResult } from "./MatchPrefixResult";
+import { MatchPrefixResult, SuccessfulMatch } from "./MatchPrefixResult";
 
 /**
  * Tag interface for named matches.
@@ -25,6 +25,19 @@ export interface MatchingLogic extends Term {
      */
     readonly requiredPrefix?: string;
 
+    /**
+     * Optimization property. Prefixes one of which is required for this to match,
+     * for matchers such as alternatives that can't offer a single requiredPrefix.
+     * Return undefined if we don't know.
+     */
+    readonly requiredPrefixes?: string[];
+
+    /**
+     * Optimization property. Characters a match may begin with.
+     * Return undefined if we don't know.
+     */
+    readonly firstCharacters?: FirstCharacters;
+
     /**
      * Core matching method. Can we match at the present point in the
      * given InputState? Context arguments may be used by matchers that
@@ -44,6 +57,23 @@ export interface MatchingLogic extends Term {
 
 }
 
+/**
+ * FIRST set of a matcher: the characters its matches may begin with.
+ * Whitespace characters needn't be included, as scanning never excludes them.
+ */
+export interface FirstCharacters {
+
+    /**
+     * Characters a non-empty match may begin with
+     */
+    readonly characters: string;
+
+    /**
+     * Can the matcher match the empty string? If so, what follows it may begin a match.
+     */
+    readonly canMatchEmpty: boolean;
+}
+
 /**
  * Matching logic associated with a name
  */
@@ -53,6 +83,36 @@ export interface Matcher extends MatchingLogic {
 
 }
 
+/**
+ * Source of alternative matches at a point in the input
+ */
+export interface Alternatives {
+
+    /**
+     * Return the next alternative match, or undefined if there are no more
+     */
+    next(): SuccessfulMatch;
+}
+
+/**
+ * Interface implemented by matchers that can offer matches other than the one
+ * matchPrefix returns, so that a backtracking Concat can try them if a later step fails.
+ */
+export interface BacktrackingMatchingLogic extends MatchingLogic {
+
+    /**
+     * Does this matcher only make sense if the enclosing Concat backtracks?
+     * If so, the Concat will backtrack regardless of its configuration.
+     */
+    readonly requiresBacktracking?: boolean;
+
+    /**
+     * Alternatives to the match returned by matchPrefix at this point, in order of preference.
+     * Arguments are as for matchPrefix.
+     */
+    alternatives(is: InputState, thisMatchContext: {}, parseContext: {}): Alternatives;
+}
+
 /**
  * Interface implemented by matchers that can be lazily initialized
  */
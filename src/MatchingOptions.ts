@@ -0,0 +1,116 @@
+import { MatchTracer } from "./MatchTracer";
+
+/**
+ * Options configuring a single matching run: for example,
+ * a call to findMatches, firstMatch or exactMatch on a Microgrammar.
+ */
+export interface MatchingOptions {
+
+    /**
+     * Cache the result of each matchPrefix call by matcher and offset for the duration
+     * of the run, so that a matcher is never tried twice at the same offset.
+     * Only use this with grammars whose matchers depend solely on the input,
+     * not on the match or parse context. Default false.
+     */
+    memoize?: boolean;
+
+    /**
+     * If memoizing, statistics to update as the run proceeds.
+     */
+    memoStats?: MemoStats;
+
+    /**
+     * Which matches to report when scanning input. Default "non-overlapping".
+     */
+    matchMode?: MatchMode;
+
+    /**
+     * Offset in the input at which to start matching. Offsets of matches
+     * are still relative to the start of the whole input. Default 0.
+     */
+    startOffset?: number;
+
+    /**
+     * Offset in the input at which to stop matching: matches must end at or before it.
+     * Default the end of the input.
+     */
+    endOffset?: number;
+
+    /**
+     * Width of a tab when working out the columns of matches: a tab advances the column
+     * to one more than the next multiple of this. Default 1, so a tab is a single column.
+     */
+    tabWidth?: number;
+
+    /**
+     * Does a carriage return not followed by a line feed end a line when working out
+     * the lines of matches? A line feed always does, and "\r\n" is a single line ending. Default false.
+     */
+    carriageReturnEndsLine?: boolean;
+
+    /**
+     * Limits on the work the run may do. If exceeded, the run fails with a MatchAbortedError.
+     */
+    budget?: MatchBudget;
+
+    /**
+     * Token allowing the run to be cancelled, for example from a timer.
+     * Once cancelled, the run fails with a MatchAbortedError.
+     */
+    cancellation?: CancellationToken;
+
+    /**
+     * Tracer to tell about every matchPrefix invocation in the run, such as a TraceRecorder
+     */
+    tracer?: MatchTracer;
+}
+
+/**
+ * Limits on the work a matching run may do
+ */
+export interface MatchBudget {
+
+    /**
+     * Maximum number of matchPrefix invocations, including those of nested matchers
+     */
+    maxInvocations?: number;
+
+    /**
+     * Time after which the run should stop, in milliseconds since the epoch, as returned by Date.now()
+     */
+    deadline?: number;
+}
+
+/**
+ * Checked as a matching run proceeds, to see if it should stop
+ */
+export interface CancellationToken {
+
+    readonly cancelled: boolean;
+}
+
+/**
+ * Which matches to report when scanning input:
+ * "non-overlapping" resumes scanning after the end of each match;
+ * "overlapping" resumes scanning one character after the start of each match,
+ * so nested and overlapping matches are reported;
+ * "all-starts" tries to match at every offset, reporting every offset at which the grammar matches,
+ * including those of whitespace that precedes a match.
+ */
+export type MatchMode = "non-overlapping" | "overlapping" | "all-starts";
+
+/**
+ * Statistics gathered by a memoized matching run
+ */
+export interface MemoStats {
+
+    /**
+     * Number of matchPrefix calls satisfied from the cache
+     */
+    hits: number;
+
+    /**
+     * Number of matchPrefix calls that needed to be computed
+     */
+    misses: number;
+}
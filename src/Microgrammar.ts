@@ -1,20 +1,31 @@
 import { InputState, Listeners } from "./InputState";
-import { MatchingLogic, Term } from "./Matchers";
+import { FirstCharacters, MatchingLogic, Term } from "./Matchers";
 import { Concat, toMatchingLogic } from "./matchers/Concat";
 import { isSuccessfulMatch } from "./MatchPrefixResult";
 import { DismatchReport, PatternMatch } from "./PatternMatch";
 
+import { AsyncInputStream } from "./spi/AsyncInputStream";
 import { InputStream } from "./spi/InputStream";
-import { StringInputStream } from "./spi/StringInputStream";
+import { ReadableInputStream, ReadableLike } from "./spi/ReadableInputStream";
 
 import { FromStringOptions } from "./FromStringOptions";
+import { concatFromJson, concatToJson, GrammarJson } from "./GrammarJson";
+import { fromGrammar, GrammarNotationOptions } from "./GrammarNotation";
 import { ChangeSet } from "./internal/ChangeSet";
-import { DefaultInputState } from "./internal/DefaultInputState";
 import { exactMatch } from "./internal/ExactMatch";
+import { firstCharactersOfAny } from "./internal/FirstCharacters";
+import { initialInputState, streamInRange } from "./internal/InputRange";
+import { toInputStream } from "./internal/InputStateFactory";
 import { InputStateManager } from "./internal/InputStateManager";
+import { positionsFor } from "./internal/LinePositions";
+import { PrintedSpec, printSpec } from "./internal/MatcherPrinter";
+import { matchIterator, scan } from "./internal/MatchIteration";
+import { memoFor } from "./internal/MatchMemo";
 import { MicrogrammarSpecParser } from "./internal/MicrogrammarSpecParser";
 import { MatchUpdater, MicrogrammarUpdates } from "./internal/MicrogrammarUpdates";
-import { readyToMatch } from "./internal/Whitespace";
+import { budgetFor } from "./internal/RunBudget";
+import { matchStream } from "./internal/StreamMatching";
+import { MatchingOptions } from "./MatchingOptions";
 
 /**
  * Holds a set of updatable matches
@@ -77,6 +88,31 @@ export class Microgrammar<T> implements Term {
             new MicrogrammarSpecParser().fromString(spec, components, options));
     }
 
+    /**
+     * Create a microgrammar from named rules in a PEG-like notation. See the README.
+     * Rules may refer to each other, and to themselves.
+     * Throws a GrammarSyntaxError giving the line and column of the problem if the rules are invalid.
+     * @param grammar rules
+     * @param components matchers that rules may refer to as if they were rules
+     * @param options options, including the rule to match
+     * @return {Microgrammar<T>}
+     */
+    public static fromGrammar<T>(grammar: string,
+                                 components: object = {},
+                                 options: GrammarNotationOptions = {}): Microgrammar<T> {
+        return new Microgrammar<T>(fromGrammar(grammar, components, options));
+    }
+
+    /**
+     * Create a microgrammar from a grammar described in JSON. See grammar-json.md.
+     * Throws a GrammarJsonError giving the path to the problem if the JSON is invalid.
+     * @param json grammar, or its JSON text
+     * @return {Microgrammar<T>}
+     */
+    public static fromJSON<T>(json: GrammarJson | string): Microgrammar<T> {
+        return new Microgrammar<T>(concatFromJson(json));
+    }
+
     public $id;
 
     public definitions = this.matcher.definitions;
@@ -84,6 +120,24 @@ export class Microgrammar<T> implements Term {
     constructor(public matcher: Concat) {
     }
 
+    /**
+     * Print this grammar as a spec and components that fromString will parse to an equivalent grammar
+     * @param options fromString options the spec will be parsed with
+     * @return {PrintedSpec}
+     */
+    public toSpec(options: FromStringOptions = {}): PrintedSpec {
+        return printSpec(this.matcher, options);
+    }
+
+    /**
+     * Describe this grammar in JSON that fromJSON will load, throwing a GrammarJsonError
+     * if it contains matchers that can't be described, such as computations
+     * @return {GrammarJson}
+     */
+    public toJSON(): GrammarJson {
+        return concatToJson(this.matcher);
+    }
+
     /**
      * Convenience method to find matches without the ability to update them
      * @param input
@@ -91,26 +145,46 @@ export class Microgrammar<T> implements Term {
      * Often used to stop after one.
      * @param parseContext context for the whole parsing operation
      * @param l listeners observing input characters as they are read
+     * @param options options for this matching run, including which matches to report
      * @return {PatternMatch[]}
      */
     public findMatches(input: string | InputStream,
                        parseContext?: {},
                        l?: Listeners,
-                       stopAfterMatch: (PatternMatch) => boolean = pm => false): Array<T & PatternMatch> {
+                       stopAfterMatch: (PatternMatch) => boolean = pm => false,
+                       options: MatchingOptions = {}): Array<T & PatternMatch> {
         const lm = new LazyMatcher(this.matcher, stopAfterMatch);
-        lm.consume(input, parseContext, l);
+        lm.consume(input, parseContext, l, options);
         return lm.matches as Array<T & PatternMatch>;
     }
 
+    /**
+     * Find matches in the input lazily, yielding each as soon as it is found,
+     * so callers can stop early without finding or holding all matches.
+     * Nothing is read until the first match is requested.
+     * @param input
+     * @param parseContext context for the whole parsing operation
+     * @param l listeners observing input characters as they are read
+     * @param options options for this matching run
+     * @return {Iterable<PatternMatch&T>}
+     */
+    public matchIterator(input: string | InputStream,
+                         parseContext = {},
+                         l?: Listeners,
+                         options: MatchingOptions = {}): Iterable<PatternMatch & T> {
+        return matchIterator<T>(this.matcher, toInputStream(input), parseContext, l, options);
+    }
+
     /**
      * Convenient method to find the first match, or null if not found.
      * Stops searching after the first match.
      * @param input
      * @param l listeners observing input characters as they are read
+     * @param options options for this matching run
      * @returns {PatternMatch[]}
      */
-    public firstMatch(input: string | InputStream, l?: Listeners): PatternMatch & T {
-        const found = this.findMatches(input, {}, l, pm => true);
+    public firstMatch(input: string | InputStream, l?: Listeners, options: MatchingOptions = {}): PatternMatch & T {
+        const found = this.findMatches(input, {}, l, pm => true, options);
         return found.length > 0 ? found[0] : null;
     }
 
@@ -121,10 +195,30 @@ export class Microgrammar<T> implements Term {
      * @param input
      * @param parseContext context for the whole parsing operation
      * @param l listeners observing input characters as they are read
+     * @param options options for this matching run
      * @return {PatternMatch&T}
      */
-    public exactMatch(input: string | InputStream, parseContext = {}, l?: Listeners): PatternMatch & T | DismatchReport {
-        return exactMatch<T>(this.matcher, input, parseContext, l);
+    public exactMatch(input: string | InputStream,
+                      parseContext = {},
+                      l?: Listeners,
+                      options: MatchingOptions = {}): PatternMatch & T | DismatchReport {
+        return exactMatch<T>(this.matcher, input, parseContext, l, options);
+    }
+
+    /**
+     * Find matches in input that arrives over time, such as a Node Readable stream,
+     * without buffering all of it. Each match is yielded as soon as the input it depends on,
+     * which may include a little lookahead, has arrived. Matches are not updatable.
+     * @param input Node Readable stream, or other asynchronous input stream
+     * @param parseContext context for the whole parsing operation
+     * @param options options for this matching run
+     * @return {AsyncIterable<PatternMatch&T>}
+     */
+    public matchStream(input: ReadableLike | AsyncInputStream,
+                       parseContext = {},
+                       options: MatchingOptions = {}): AsyncIterable<PatternMatch & T> {
+        const stream = isReadable(input) ? new ReadableInputStream(input) : input;
+        return matchStream(this.matcher, stream, parseContext, options) as AsyncIterable<PatternMatch & T>;
     }
 
 }
@@ -161,48 +255,44 @@ export abstract class MatchingMachine {
      * @param input
      * @param parseContext context for the whole parsing operation
      * @param l listeners observing input characters as they are read
+     * @param options options for this matching run
      */
-    public consume(input: string | InputStream, parseContext = {}, l?: Listeners): void {
+    public consume(input: string | InputStream, parseContext = {}, l?: Listeners, options: MatchingOptions = {}): void {
         const omg = this.observer ? Microgrammar.fromDefinitions(this.observer) : undefined;
 
         let currentMatcher: MatchingLogic = this.matcher;
         const stream = toInputStream(input);
-        const stateManager = new InputStateManager(stream);
+        const stateManager = new InputStateManager(streamInRange(stream, options), undefined,
+            memoFor(options), budgetFor(options), positionsFor(options), options.tracer);
 
-        let currentInputState: InputState = new DefaultInputState(stateManager, 0, l);
+        const mode = options.matchMode || "non-overlapping";
+        const consumeWhiteSpace = (this.matcher as any).$consumeWhiteSpaceBetweenTokens === true;
+
+        let currentInputState: InputState = initialInputState(stateManager, options, l);
+        let first: FirstCharacters;
+        let firstOf: MatchingLogic;
         while (currentMatcher && !currentInputState.exhausted()) {
-            currentInputState = readyToMatch(currentInputState,
-                (this.matcher as any).$consumeWhiteSpaceBetweenTokens === true,
-                currentMatcher,
-                this.observer).state;
-
-            const previousIs = currentInputState;
-            const tryMatch = currentMatcher.matchPrefix(currentInputState, {}, parseContext);
-
-            // We can't accept empty matches as genuine at this level:
-            // For example, if the matcher is just a Rep or Alt
-            if (isSuccessfulMatch(tryMatch) && tryMatch.$matched !== "") {
-                const match = tryMatch.match;
-                // Enrich with the name
-                (match as any).$name = match.$matcherId;
-                currentMatcher = toMatchingLogic(this.onMatch(match));
-                currentInputState = currentInputState.consume(match.$matched,
-                    `Microgrammar after match on [${match.$matched} from [${match.$matcherId}]`);
-            } else {
-                // We didn't match. Discard the current input character and try again
-                if (!currentInputState.exhausted()) {
-                    currentInputState = currentInputState.advance();
-                }
+            if (currentMatcher !== firstOf) {
+                // Work out where the matcher and observer can start only when the matcher changes
+                firstOf = currentMatcher;
+                first = firstCharactersOfAny([currentMatcher, this.observer].filter(m => !!m));
+            }
+            const step = scan(currentMatcher, currentInputState, consumeWhiteSpace, first, parseContext, mode,
+                this.observer);
+            if (step.match) {
+                currentMatcher = toMatchingLogic(this.onMatch(step.match));
             }
+            // If there's nowhere to continue, where we tried is exhausted
+            currentInputState = step.next || step.tried;
             if (this.observer) {
                 // There are two cases: If we matched, we need to look multiple times in the input
-                if (isSuccessfulMatch(tryMatch)) {
-                    const matches = omg.findMatches(tryMatch.$matched);
+                if (isSuccessfulMatch(step.result)) {
+                    const matches = omg.findMatches(step.result.$matched);
                     for (const m of matches) {
                         currentMatcher = toMatchingLogic(this.observeMatch(m));
                     }
                 } else {
-                    const observerMatch = this.observer.matchPrefix(previousIs, {}, parseContext);
+                    const observerMatch = this.observer.matchPrefix(step.tried, {}, parseContext);
                     if (isSuccessfulMatch(observerMatch)) {
                         currentMatcher = toMatchingLogic(this.observeMatch(observerMatch.match));
                     }
@@ -233,10 +323,8 @@ export abstract class MatchingMachine {
 
 }
 
-function toInputStream(input: string | InputStream): InputStream {
-    return (typeof input === "string") ?
-        new StringInputStream(input) :
-        input;
+function isReadable(input: ReadableLike | AsyncInputStream): input is ReadableLike {
+    return !!(input as ReadableLike).on;
 }
 
 class LazyMatcher extends MatchingMachine {
@@ -0,0 +1,13 @@
+/**
+ * Base class of the errors this library throws, so that they work with instanceof
+ * and are named after their class
+ */
+export abstract class MicrogrammarError extends Error {
+
+    constructor(message: string) {
+        super(message);
+        // Extending Error loses the prototype chain when targeting ES5
+        (Object as any).setPrototypeOf(this, new.target.prototype);
+        this.name = (new.target as any).name;
+    }
+}
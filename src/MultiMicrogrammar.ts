@@ -0,0 +1,164 @@
+import { InputState, Listeners } from "./InputState";
+import { FirstCharacters, MatchingLogic } from "./Matchers";
+import { MatchingOptions } from "./MatchingOptions";
+import { Microgrammar } from "./Microgrammar";
+import { PatternMatch } from "./PatternMatch";
+
+import { InputStream } from "./spi/InputStream";
+
+import { firstCharactersOf, mayBeginWith } from "./internal/FirstCharacters";
+import { initialInputState, streamInRange } from "./internal/InputRange";
+import { toInputStream } from "./internal/InputStateFactory";
+import { InputStateManager } from "./internal/InputStateManager";
+import { invokeMatchPrefix } from "./internal/InvokeMatchPrefix";
+import { positionsFor } from "./internal/LinePositions";
+import { acceptedMatch } from "./internal/MatchIteration";
+import { memoFor } from "./internal/MatchMemo";
+import { requiredPrefixesOf } from "./internal/RequiredPrefixes";
+import { budgetFor } from "./internal/RunBudget";
+
+/**
+ * A match found by a MultiMicrogrammar, tagged with the name of the grammar that found it
+ */
+export interface GrammarMatch<T = any> {
+
+    grammar: string;
+
+    match: PatternMatch & T;
+}
+
+/**
+ * State of a grammar during a scan
+ */
+interface Scanner {
+
+    name: string;
+
+    matcher: MatchingLogic;
+
+    consumeWhiteSpace: boolean;
+
+    /**
+     * Prefixes one of which a match must begin with, if known
+     */
+    prefixes: string[];
+
+    /**
+     * Characters a match may begin with, if known
+     */
+    first: FirstCharacters;
+
+    /**
+     * Offset at which this grammar may next match: after the end of its last match,
+     * unless matches may overlap
+     */
+    resumeAt: number;
+}
+
+/**
+ * Finds matches of a number of named microgrammars in a single pass over the input.
+ * Each grammar finds the same matches as its own findMatches method would:
+ * by default its matches do not overlap each other, but may overlap those of other grammars.
+ * Grammars are dispatched using their required prefixes, first characters and canStartWith hints,
+ * so only grammars that may match at a position are tried there.
+ */
+export class MultiMicrogrammar {
+
+    /**
+     * Indexes of grammars that may match at a position starting with a given character,
+     * in the order they were defined. Computed on demand.
+     */
+    private candidatesByChar: { [char: string]: number[] } = {};
+
+    /**
+     * Create a MultiMicrogrammar
+     * @param grammars grammars to use, keyed by name. Matches found at the same offset
+     * are returned in the order grammars are defined here.
+     */
+    constructor(public readonly grammars: { [name: string]: Microgrammar<any> }) {
+    }
+
+    /**
+     * Find matches of all grammars. Matches are not updatable.
+     * @param input
+     * @param parseContext context for the whole parsing operation
+     * @param l listeners observing input characters as they are read
+     * @param options options for this matching run. If memoized, grammars share the memo.
+     * The match mode applies to each grammar
+     * @return {GrammarMatch[]} matches, in order of offset
+     */
+    public findMatches(input: string | InputStream,
+                       parseContext = {},
+                       l?: Listeners,
+                       options: MatchingOptions = {}): GrammarMatch[] {
+        const scanners: Scanner[] = Object.keys(this.grammars).map(name => {
+            const matcher = this.grammars[name].matcher;
+            return {
+                name,
+                matcher,
+                consumeWhiteSpace: (matcher as any).$consumeWhiteSpaceBetweenTokens === true,
+                prefixes: requiredPrefixesOf(matcher),
+                first: firstCharactersOf(matcher),
+                resumeAt: 0,
+            };
+        });
+        const mode = options.matchMode || "non-overlapping";
+        const found: GrammarMatch[] = [];
+        const stateManager = new InputStateManager(streamInRange(toInputStream(input), options), undefined,
+            memoFor(options), budgetFor(options), positionsFor(options), options.tracer);
+
+        let currentInputState: InputState = initialInputState(stateManager, options, l);
+        while (!currentInputState.exhausted()) {
+            const char = currentInputState.peek(1);
+            // To report every start, we must try every grammar everywhere
+            const candidates = (mode === "all-starts") ? scanners : this.candidatesFor(char, scanners);
+            for (const scanner of candidates) {
+                if (scanner.resumeAt > currentInputState.offset) {
+                    continue;
+                }
+                if (mode !== "all-starts" &&
+                    ((scanner.consumeWhiteSpace && char.trim() === "") ||
+                        (scanner.prefixes && !scanner.prefixes.some(p => currentInputState.peek(p.length) === p)))) {
+                    continue;
+                }
+                const match = acceptedMatch(invokeMatchPrefix(scanner.matcher, currentInputState, {}, parseContext));
+                if (match) {
+                    found.push({ grammar: scanner.name, match });
+                    scanner.resumeAt = (mode === "non-overlapping") ?
+                        currentInputState.offset + match.$matched.length :
+                        currentInputState.offset + 1;
+                }
+            }
+            currentInputState = currentInputState.advance();
+            stateManager.dropLeft(currentInputState.offset);
+        }
+        return found;
+    }
+
+    /**
+     * Return the grammars that may match at a position starting with this character
+     */
+    private candidatesFor(char: string, scanners: Scanner[]): Scanner[] {
+        let candidates = this.candidatesByChar[char];
+        if (!candidates) {
+            candidates = [];
+            scanners.forEach((s, i) => {
+                if (mayStartWith(s, char)) {
+                    candidates.push(i);
+                }
+            });
+            this.candidatesByChar[char] = candidates;
+        }
+        return candidates.map(i => scanners[i]);
+    }
+}
+
+function mayStartWith(scanner: Scanner, char: string): boolean {
+    if (scanner.prefixes) {
+        return scanner.prefixes.some(p => p.charAt(0) === char);
+    }
+    if (scanner.first) {
+        return mayBeginWith(scanner.first, char);
+    }
+    return !scanner.matcher.canStartWith || scanner.matcher.canStartWith(char);
+}
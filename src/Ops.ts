@@ -1,8 +1,18 @@
 import { InputState } from "./InputState";
-import { MatchingLogic } from "./Matchers";
-import { toMatchingLogic } from "./matchers/Concat";
-import { isSuccessfulMatch, MatchFailureReport, MatchPrefixResult, matchPrefixSuccess } from "./MatchPrefixResult";
-import { UndefinedPatternMatch } from "./PatternMatch";
+import { firstCharactersOf, firstCharactersOfAny } from "./internal/FirstCharacters";
+import { invokeMatchPrefix } from "./internal/InvokeMatchPrefix";
+import { requiredPrefixesOfAny } from "./internal/RequiredPrefixes";
+import { Alternatives, BacktrackingMatchingLogic, FirstCharacters, MatchingLogic } from "./Matchers";
+import { isBacktrackingMatchingLogic, toMatchingLogic } from "./matchers/Concat";
+import {
+    isSuccessfulMatch,
+    MatchFailureReport,
+    MatchPrefixResult,
+    matchPrefixSuccess,
+    SuccessfulMatch,
+    toFailureReport,
+} from "./MatchPrefixResult";
+import { PatternMatch, UndefinedPatternMatch } from "./PatternMatch";
 
 /**
  * Optional match on the given matcher
@@ -13,9 +23,9 @@ export function optional(o: any): MatchingLogic {
     return new Opt(o);
 }
 
-export class Opt implements MatchingLogic {
+export class Opt implements BacktrackingMatchingLogic {
 
-    private matcher: MatchingLogic;
+    public readonly matcher: MatchingLogic;
 
     /**
      * Optional match
@@ -29,18 +39,50 @@ export class Opt implements MatchingLogic {
         return `Opt[${this.matcher.$id}]`;
     }
 
+    get firstCharacters(): FirstCharacters {
+        const first = firstCharactersOf(this.matcher);
+        return first ?
+            { characters: first.characters, canMatchEmpty: true } :
+            undefined;
+    }
+
+    get requiresBacktracking(): boolean {
+        return (this.matcher as BacktrackingMatchingLogic).requiresBacktracking === true;
+    }
+
     public matchPrefix(is: InputState, thisMatchContext, parseContext): MatchPrefixResult {
         if (is.exhausted()) {
             // console.log(`Match from Opt on exhausted stream`);
             return matchPrefixSuccess(new UndefinedPatternMatch(this.$id, is.offset));
         }
 
-        const maybe = this.matcher.matchPrefix(is, thisMatchContext, parseContext);
+        const maybe = invokeMatchPrefix(this.matcher, is, thisMatchContext, parseContext);
         if (isSuccessfulMatch(maybe)) {
             return maybe;
         }
         return matchPrefixSuccess(new UndefinedPatternMatch(this.$id, is.offset));
     }
+
+    /**
+     * If we matched, offer the matcher's other matches, then not matching
+     */
+    public alternatives(is: InputState, thisMatchContext, parseContext): Alternatives {
+        const primary = this.matchPrefix(is, thisMatchContext, parseContext) as SuccessfulMatch;
+        const more = (!(primary.match instanceof UndefinedPatternMatch) && isBacktrackingMatchingLogic(this.matcher)) ?
+            this.matcher.alternatives(is, thisMatchContext, parseContext) :
+            undefined;
+        let offered = primary.$matched === "";
+        return {
+            next: () => {
+                const another = more ? more.next() : undefined;
+                if (another || offered) {
+                    return another;
+                }
+                offered = true;
+                return new SuccessfulMatch(new UndefinedPatternMatch(this.$id, is.offset));
+            },
+        };
+    }
 }
 
 /**
@@ -57,7 +99,7 @@ export function firstOf(a: any, b: any, ...matchers: any[]): MatchingLogic {
 /**
  * Matches first match of 2 or more matchers.
  */
-export class Alt implements MatchingLogic {
+export class Alt implements BacktrackingMatchingLogic {
 
     public readonly matchers: MatchingLogic[];
 
@@ -71,21 +113,193 @@ export class Alt implements MatchingLogic {
         return `Alt(${this.matchers.map(m => m.$id).join(",")})`;
     }
 
+    get requiredPrefixes(): string[] {
+        return requiredPrefixesOfAny(this.matchers);
+    }
+
+    get firstCharacters(): FirstCharacters {
+        return firstCharactersOfAny(this.matchers);
+    }
+
+    get requiresBacktracking(): boolean {
+        return this.matchers.some(m => (m as BacktrackingMatchingLogic).requiresBacktracking === true);
+    }
+
     public matchPrefix(is: InputState, thisMatchContext, parseContext): MatchPrefixResult {
         if (is.exhausted()) {
             return new MatchFailureReport(this.$id, is.offset, {});
         }
 
+        const failures: MatchFailureReport[] = [];
         for (const matcher of this.matchers) {
-            const m = matcher.matchPrefix(is, thisMatchContext, parseContext);
+            const m = invokeMatchPrefix(matcher, is, thisMatchContext, parseContext);
             if (isSuccessfulMatch(m)) {
                 return m;
             }
+            failures.push(toFailureReport(m));
         }
-        return new MatchFailureReport(this.$id, is.offset, {});
+        return new MatchFailureReport(this.$id, is.offset, {}, "No alternative matched", failures);
+    }
+
+    /**
+     * Offer the other matches of the alternative that matched, then the matches
+     * of later alternatives that also match, and their other matches in turn
+     */
+    public alternatives(is: InputState, thisMatchContext, parseContext): Alternatives {
+        let index = 0;
+        let passedFirstMatch = false;
+        let more: Alternatives;
+        return {
+            next: () => {
+                let another = more ? more.next() : undefined;
+                while (!another && index < this.matchers.length && !is.exhausted()) {
+                    const matcher = this.matchers[index++];
+                    const m = invokeMatchPrefix(matcher, is, thisMatchContext, parseContext);
+                    more = undefined;
+                    if (isSuccessfulMatch(m)) {
+                        more = isBacktrackingMatchingLogic(matcher) ?
+                            matcher.alternatives(is, thisMatchContext, parseContext) :
+                            undefined;
+                        if (passedFirstMatch) {
+                            return m;
+                        }
+                        passedFirstMatch = true;
+                        another = more ? more.next() : undefined;
+                    }
+                }
+                return another;
+            },
+        };
     }
 }
 
+/**
+ * Match the longest match of these matchers. All are tried. Equivalent to an Alt
+ * that doesn't depend on the order of its alternatives.
+ * @param a first matcher
+ * @param b second matcher
+ * @param matchers any further matchers: varargs
+ * @returns {Longest}
+ */
+export function longestOf(a: any, b: any, ...matchers: any[]): Longest {
+    return new Longest(a, b, ...matchers);
+}
+
+/**
+ * How to choose between matches of the same length: the first or last matcher
+ * in order of declaration, or a function choosing between candidate matches
+ */
+export type TieBreak = "first" | "last" | ((candidates: PatternMatch[]) => PatternMatch);
+
+/**
+ * Invoked when more than one matcher matched the same input with a different structure
+ */
+export type AmbiguityListener = (offset: number, candidates: PatternMatch[]) => void;
+
+/**
+ * Matches the longest match of 2 or more matchers.
+ */
+export class Longest implements MatchingLogic {
+
+    public readonly matchers: MatchingLogic[];
+
+    private tieBreakStrategy: TieBreak = "first";
+
+    private ambiguityListener: AmbiguityListener;
+
+    constructor(a: any, b: any, ...matchers: any[]) {
+        const matchObjects = [a, b].concat(matchers);
+        this.matchers = matchObjects.map(m => toMatchingLogic(m));
+    }
+
+    get $id() {
+        return `Longest(${this.matchers.map(m => m.$id).join(",")})`;
+    }
+
+    get requiredPrefixes(): string[] {
+        return requiredPrefixesOfAny(this.matchers);
+    }
+
+    get firstCharacters(): FirstCharacters {
+        return firstCharactersOfAny(this.matchers);
+    }
+
+    /**
+     * Choose how to resolve matches of the same length. Default is the first.
+     * @param strategy tie break strategy
+     * @return {Longest}
+     */
+    public tieBreak(strategy: TieBreak): this {
+        this.tieBreakStrategy = strategy;
+        return this;
+    }
+
+    /**
+     * Be notified when matchers matched the same input with a different structure
+     * @param listener listener to invoke
+     * @return {Longest}
+     */
+    public onAmbiguity(listener: AmbiguityListener): this {
+        this.ambiguityListener = listener;
+        return this;
+    }
+
+    public canStartWith(char: string): boolean {
+        return this.matchers.some(m => !m.canStartWith || m.canStartWith(char));
+    }
+
+    public matchPrefix(is: InputState, thisMatchContext, parseContext): MatchPrefixResult {
+        if (is.exhausted()) {
+            return new MatchFailureReport(this.$id, is.offset, {});
+        }
+
+        let longest: SuccessfulMatch[] = [];
+        const failures: MatchFailureReport[] = [];
+        for (const matcher of this.matchers) {
+            const m = invokeMatchPrefix(matcher, is, thisMatchContext, parseContext);
+            if (isSuccessfulMatch(m)) {
+                if (longest.length === 0 || m.$matched.length > longest[0].$matched.length) {
+                    longest = [m];
+                } else if (m.$matched.length === longest[0].$matched.length) {
+                    longest.push(m);
+                }
+            } else {
+                failures.push(toFailureReport(m));
+            }
+        }
+        if (longest.length === 0) {
+            return new MatchFailureReport(this.$id, is.offset, {}, "No alternative matched", failures);
+        }
+        if (longest.length > 1 && this.ambiguityListener && !sameStructure(longest)) {
+            this.ambiguityListener(is.offset, longest.map(m => m.match));
+        }
+        return this.choose(longest);
+    }
+
+    private choose(candidates: SuccessfulMatch[]): SuccessfulMatch {
+        const strategy = this.tieBreakStrategy;
+        if (strategy === "first") {
+            return candidates[0];
+        } else if (strategy === "last") {
+            return candidates[candidates.length - 1];
+        }
+        const chosen = strategy(candidates.map(c => c.match));
+        const found = candidates.filter(c => c.match === chosen);
+        if (found.length === 0) {
+            throw new Error(`Tie break for ${this.$id} returned a match that was not a candidate`);
+        }
+        return found[0];
+    }
+}
+
+/**
+ * Do all these matches have the same structure?
+ */
+function sameStructure(matches: SuccessfulMatch[]): boolean {
+    const structures = matches.map(m => JSON.stringify(m.$value));
+    return structures.filter(s => s !== structures[0]).length === 0;
+}
+
 /**
  * Add a condition with a function that verifies that even if we found a match
  * we are happy with it: For example, we like the value it contains.
@@ -107,15 +321,20 @@ export function when(o: any, matchTest: (PatternMatch) => boolean, inputStateTes
 
     function conditionalMatch(is: InputState, thisMatchContext, parseContext): MatchPrefixResult {
         const result = inputStateTest(is) ?
-            matcher.matchPrefix(is, thisMatchContext, parseContext) :
+            invokeMatchPrefix(matcher, is, thisMatchContext, parseContext) :
             undefined;
-        return (isSuccessfulMatch(result) && matchTest(result.match)) ?
-            result :
+        if (isSuccessfulMatch(result) && matchTest(result.match)) {
+            return result;
+        }
+        return (result && !isSuccessfulMatch(result)) ?
+            new MatchFailureReport(this.$id, is.offset, context, toFailureReport(result)) :
             new MatchFailureReport(this.$id, is.offset, context);
     }
 
     conditionalMatcher.matchPrefix = conditionalMatch;
     conditionalMatcher.requiredPrefix = matcher.requiredPrefix;
+    conditionalMatcher.requiredPrefixes = matcher.requiredPrefixes;
+    conditionalMatcher.firstCharacters = matcher.firstCharacters;
     conditionalMatcher.canStartWith = matcher.canStartWith;
     return conditionalMatcher;
 }
@@ -24,6 +24,27 @@ export abstract class PatternMatch {
      */
     public abstract $value: any;
 
+    /**
+     * Line on which the match begins, from 1.
+     * Set when the match is made by a matcher invoked during a matching run.
+     */
+    public $line: number;
+
+    /**
+     * Column at which the match begins, from 1
+     */
+    public $column: number;
+
+    /**
+     * Line just after the end of the match
+     */
+    public $endLine: number;
+
+    /**
+     * Column just after the end of the match
+     */
+    public $endColumn: number;
+
     /**
      * Represents a match
      * @param $matcherId id of the matcher that matched
@@ -76,6 +97,23 @@ export class UndefinedPatternMatch extends PatternMatch {
     }
 }
 
+/**
+ * Returned when an assertion such as a lookahead succeeds
+ * without consuming any input
+ */
+export class ZeroWidthPatternMatch extends PatternMatch {
+
+    constructor(matcherId: string,
+                offset: number,
+                public readonly $value: any) {
+        super(matcherId, "", offset);
+    }
+}
+
+export function isZeroWidthPatternMatch(pm: PatternMatch): pm is ZeroWidthPatternMatch {
+    return pm instanceof ZeroWidthPatternMatch;
+}
+
 /**
  * Represents a complex pattern match. Sets properties to expose structure.
  * In the case of string properties, where we can't add provide the whole PatternMatch,
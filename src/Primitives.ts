@@ -1,5 +1,6 @@
 import { InputState } from "./InputState";
-import { MatchingLogic } from "./Matchers";
+import { firstCharactersOfRegex } from "./internal/FirstCharacters";
+import { FirstCharacters, MatchingLogic } from "./Matchers";
 import { MatchFailureReport, MatchPrefixResult, matchPrefixSuccess } from "./MatchPrefixResult";
 import { TerminalPatternMatch } from "./PatternMatch";
 
@@ -18,7 +19,7 @@ export class Literal implements MatchingLogic {
         return (peek === this.literal) ?
             matchPrefixSuccess(new TerminalPatternMatch(this.$id, this.literal, is.offset, this.literal) ) :
             new MatchFailureReport(this.$id, is.offset, {},
-                `Did not match literal [${this.literal}]: saw [${peek}]`);
+                `Did not match literal [${this.literal}]: saw [${peek}]`, [], `\`${this.literal}\``);
     }
 
     public canStartWith(char: string): boolean {
@@ -36,6 +37,21 @@ export function isLiteral(ml: MatchingLogic): ml is Literal {
 
 const LOOK_AHEAD_SIZE = 100;
 
+/**
+ * Return the flags of the regex, such as "gi"
+ * @param regex regex
+ * @return {string}
+ */
+export function regexFlags(regex: RegExp): string {
+    const r = regex as any;
+    if (typeof r.flags === "string") {
+        return r.flags;
+    }
+    // Runtimes without RegExp.prototype.flags
+    return (r.global ? "g" : "") + (r.ignoreCase ? "i" : "") + (r.multiline ? "m" : "") +
+        (r.unicode ? "u" : "") + (r.sticky ? "y" : "");
+}
+
 /**
  * Support for regex matching. Subclasses can convert the value to
  * whatever type they require.
@@ -44,19 +60,29 @@ export abstract class AbstractRegex implements MatchingLogic {
 
     public readonly regex: RegExp;
 
+    private first: FirstCharacters;
+
     get $id() {
         return `Regex: ${this.regex.source}`;
     }
 
+    get firstCharacters(): FirstCharacters {
+        if (this.first === undefined) {
+            // Work it out once. Null means we don't know
+            this.first = firstCharactersOfRegex(this.regex) || null;
+        }
+        return this.first || undefined;
+    }
+
     /**
      * Match a regular expression
      * @param regex JavaScript regex to match. Don't use an end anchor.
-     * Start anchor will be added if not already there
+     * Start anchor will be added if not already there. Flags are kept
      * @param lookahead number of characters to pull from the input to try to match.
      * We'll keep grabbing more if a match is found for the whole string
      */
     constructor(regex: RegExp, private lookahead: number = LOOK_AHEAD_SIZE) {
-        this.regex = regex.source.charAt(0) !== "^" ? new RegExp("^" + regex.source) : regex;
+        this.regex = regex.source.charAt(0) !== "^" ? new RegExp("^" + regex.source, regexFlags(regex)) : regex;
     }
 
     public matchPrefix(is: InputState): MatchPrefixResult {
@@ -65,7 +91,8 @@ export abstract class AbstractRegex implements MatchingLogic {
         let charactersToSee = 0;
 
         function theRegexMatchedSomething(): boolean {
-            return !!results && !!results[0];
+            // With the m flag, the anchor also matches after a line break
+            return !!results && results.index === 0 && !!results[0];
         }
 
         function matchedEverythingWeLookedAt(): boolean {
@@ -81,6 +108,8 @@ export abstract class AbstractRegex implements MatchingLogic {
         do {
             charactersToSee += this.lookahead;
             lookAt = is.peek(charactersToSee);
+            // Global and sticky regexes match from where they last stopped
+            this.regex.lastIndex = 0;
             results = this.regex.exec(lookAt);
         } while (theRegexMatchedSomething() && matchedEverythingWeLookedAt() && thereIsMoreToRead());
 
@@ -93,7 +122,8 @@ export abstract class AbstractRegex implements MatchingLogic {
                 this.toValue(matched)));
         } else {
             return new MatchFailureReport(this.$id, is.offset, {},
-                `Did not match regex /${this.regex.source}/ in [${lookAt}]`);
+                `Did not match regex /${this.regex.source}/ in [${lookAt}]`, [],
+                `/${this.regex.source.replace(/^\^/, "")}/`);
         }
     }
 
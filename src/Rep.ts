@@ -1,10 +1,19 @@
 import { InputState } from "./InputState";
-import { MatchingLogic } from "./Matchers";
+import { Alternatives, BacktrackingMatchingLogic, FirstCharacters, MatchingLogic } from "./Matchers";
 import { toMatchingLogic } from "./matchers/Concat";
-import { isSuccessfulMatch, MatchFailureReport, MatchPrefixResult, matchPrefixSuccess } from "./MatchPrefixResult";
-import { PatternMatch, TerminalPatternMatch } from "./PatternMatch";
+import {
+    isSuccessfulMatch,
+    MatchFailureReport,
+    MatchPrefixResult,
+    matchPrefixSuccess,
+    SuccessfulMatch,
+    toFailureReport,
+} from "./MatchPrefixResult";
+import { isZeroWidthPatternMatch, PatternMatch, TerminalPatternMatch } from "./PatternMatch";
 
 import { WhiteSpaceHandler } from "./Config";
+import { firstCharactersOf } from "./internal/FirstCharacters";
+import { invokeMatchPrefix } from "./internal/InvokeMatchPrefix";
 import { readyToMatch } from "./internal/Whitespace";
 
 /**
@@ -25,34 +34,85 @@ export function atLeastOne(o: any): Repetition {
     return new Rep1(o);
 }
 
+/**
+ * Match zero or more of these, but as few as possible while allowing
+ * the rest of the enclosing Concat to match. Like *? in a regex.
+ * @param o matcher
+ * @return {Repetition}
+ */
+export function zeroOrMoreLazy(o: any): Repetition {
+    return new Rep(o).nonGreedy();
+}
+
+/**
+ * Match at least one of these, but as few as possible while allowing
+ * the rest of the enclosing Concat to match. Like +? in a regex.
+ * @param o matcher
+ * @return {Repetition}
+ */
+export function atLeastOneLazy(o: any): Repetition {
+    return new Rep1(o).nonGreedy();
+}
+
+/**
+ * Match exactly n of these
+ * @param o matcher
+ * @param n number of times the matcher must match
+ * @param sep separator, if any
+ * @return {Repetition}
+ */
+export function times(o: any, n: number, sep?: any): Repetition {
+    return new Repetition(o, n, sep, n);
+}
+
+/**
+ * Match at least min and at most max of these
+ * @param o matcher
+ * @param min minimum number of times the matcher must match
+ * @param max maximum number of times the matcher may match
+ * @param sep separator, if any
+ * @return {Repetition}
+ */
+export function between(o: any, min: number, max: number, sep?: any): Repetition {
+    return new Repetition(o, min, sep, max);
+}
+
 /**
  * Handle repetition, with or without a separator.
  * Prefer subclasses for simplicity and clarity.
  * By default, match zero or more times without a separator
  */
-export class Repetition implements MatchingLogic, WhiteSpaceHandler {
+export class Repetition implements BacktrackingMatchingLogic, WhiteSpaceHandler {
 
     public $consumeWhiteSpaceBetweenTokens = true;
 
-    private matcher: MatchingLogic;
+    /**
+     * Whether to match as many items as possible, rather than as few
+     */
+    public greedy = true;
+
+    public readonly matcher: MatchingLogic;
 
-    private sepMatcher: MatchingLogic;
+    public readonly sepMatcher: MatchingLogic;
 
     /**
      * Generic rep support. Normally use subclasses.
      * @param o matcher
      * @param min mininum number of times the matcher must match for this to be considered a match. Default 0
      * @param sep if this is provided it indicates that this is a rep sep and it is the delimiter
+     * @param max maximum number of times the matcher may match. Matching stops
+     * once it is reached, leaving any further occurrences unconsumed. Default unbounded
      */
-    constructor(o: any, public min: number = 0, public sep?: any) {
+    constructor(o: any, public min: number = 0, public sep?: any, public max: number = Infinity) {
         this.matcher = toMatchingLogic(o);
         if (sep) {
             this.sepMatcher = toMatchingLogic(sep);
         }
+        this.atMost(max);
     }
 
     get $id() {
-        return `Rep[${this.matcher}:min=${this.min},sep=[${this.sep}]`;
+        return `Rep[${this.matcher.$id}:min=${this.min},max=${this.max},sep=[${this.sep}]]`;
     }
 
     public consumeWhiteSpace(consumeWhiteSpaceBetweenTokens: boolean): this {
@@ -60,6 +120,33 @@ export class Repetition implements MatchingLogic, WhiteSpaceHandler {
         return this;
     }
 
+    /**
+     * Bound this repetition
+     * @param max maximum number of times the matcher may match
+     * @return {Repetition}
+     */
+    public atMost(max: number): this {
+        if (max < this.min) {
+            throw new Error(`Invalid repetition of ${this.matcher.$id}: max of ${max} is less than min of ${this.min}`);
+        }
+        this.max = max;
+        return this;
+    }
+
+    /**
+     * Match as few items as possible, offering more only if the rest
+     * of the enclosing Concat fails. The Concat will backtrack.
+     * @return {Repetition}
+     */
+    public nonGreedy(): this {
+        this.greedy = false;
+        return this;
+    }
+
+    get requiresBacktracking(): boolean {
+        return !this.greedy;
+    }
+
     public canStartWith(char: string): boolean {
         return (this.min === 0) ?
             true :
@@ -72,57 +159,125 @@ export class Repetition implements MatchingLogic, WhiteSpaceHandler {
             this.matcher.requiredPrefix;
     }
 
+    get firstCharacters(): FirstCharacters {
+        const first = firstCharactersOf(this.matcher);
+        return (first && this.min === 0) ?
+            { characters: first.characters, canMatchEmpty: true } :
+            first;
+    }
+
     public matchPrefix(is: InputState, thisMatchContext, parseContext): MatchPrefixResult {
+        const items = this.matchItems(is, thisMatchContext, parseContext, this.greedy ? this.max : this.min);
+        return (items.matches.length >= this.min) ?
+            matchPrefixSuccess(new TerminalPatternMatch(this.$id,
+                items.matched,
+                is.offset,
+                valuesOf(items.matches))) :
+            new MatchFailureReport(this.$id, is.offset, {},
+                `Found ${items.matches.length} repetitions of ${this.matcher.$id}, expected at least ${this.min}`,
+                items.stoppedBy ? [items.stoppedBy] : []);
+    }
+
+    /**
+     * Offer successively fewer repetitions, down to the minimum,
+     * or successively more, up to the maximum, if we're not greedy
+     */
+    public alternatives(is: InputState, thisMatchContext, parseContext): Alternatives {
+        const items = this.matchItems(is, thisMatchContext, parseContext, this.max);
+        let count = this.greedy ? items.matches.length : this.min;
+        return {
+            next: () => {
+                count += this.greedy ? -1 : 1;
+                if (count < this.min || count > items.matches.length) {
+                    return undefined;
+                }
+                return new SuccessfulMatch(new TerminalPatternMatch(this.$id,
+                    count > 0 ? items.matchedThrough[count - 1] : "",
+                    is.offset,
+                    valuesOf(items.matches.slice(0, count))));
+            },
+        };
+    }
+
+    /**
+     * Match up to limit items
+     */
+    private matchItems(is: InputState, thisMatchContext, parseContext, limit: number): RepeatedItems {
         let currentInputState = is;
         const matches: PatternMatch[] = [];
+        const matchedThrough: string[] = [];
         let matched = "";
-        while (!currentInputState.exhausted()) {
+        let stoppedBy: MatchFailureReport;
+        while (matches.length < limit && !currentInputState.exhausted()) {
             const eat = readyToMatch(currentInputState, this.$consumeWhiteSpaceBetweenTokens);
             currentInputState = eat.state;
             matched += eat.skipped;
 
-            const result = this.matcher.matchPrefix(currentInputState, thisMatchContext, parseContext);
+            const result = invokeMatchPrefix(this.matcher, currentInputState, thisMatchContext, parseContext);
             if (!isSuccessfulMatch(result)) {
+                stoppedBy = toFailureReport(result);
                 break;
             } else {
                 const match = result.match;
                 if (match.$matched === "") {
+                    if (isZeroWidthPatternMatch(match)) {
+                        // An assertion held, but repeating it could never consume input
+                        break;
+                    }
                     throw new Error(`Matcher with id ${this.matcher.$id} within rep matched the empty string.\n` +
                      `I do not think this grammar means what you think it means`);
                 }
                 currentInputState = currentInputState.consume(match.$matched, `Rep matched [${match.$matched}]`);
                 matches.push(match);
                 matched += match.$matched;
+                matchedThrough.push(matched);
             }
 
-            if (this.sepMatcher) {
+            if (this.sepMatcher && matches.length < limit) {
                 const eaten = readyToMatch(currentInputState, this.$consumeWhiteSpaceBetweenTokens);
                 currentInputState = eaten.state;
                 matched += eaten.skipped;
-                const sepMatchResult = this.sepMatcher.matchPrefix(currentInputState, thisMatchContext, parseContext);
+                const sepMatchResult = invokeMatchPrefix(this.sepMatcher, currentInputState, thisMatchContext, parseContext);
                 if (isSuccessfulMatch(sepMatchResult)) {
                     const sepMatch = sepMatchResult.match;
                     currentInputState = currentInputState.consume(sepMatch.$matched, `Rep separator [${sepMatch.$matched}]`);
                     matched += (sepMatch as PatternMatch).$matched;
                 } else {
+                    stoppedBy = toFailureReport(sepMatchResult);
                     break;
                 }
             }
         }
+        return { matches, matched, matchedThrough, stoppedBy };
+    }
+}
 
-        const values = matches.map(m =>
-            (typeof m.$value === "object") ?
-                m :
-                m.$value,
-        );
+interface RepeatedItems {
 
-        return (matches.length >= this.min) ?
-            matchPrefixSuccess(new TerminalPatternMatch(this.$id,
-                matched,
-                is.offset,
-                values)) :
-            new MatchFailureReport(this.$id, is.offset, {});
-    }
+    matches: PatternMatch[];
+
+    /**
+     * All input matched, including any trailing separator
+     */
+    matched: string;
+
+    /**
+     * Input matched up to the end of each item
+     */
+    matchedThrough: string[];
+
+    /**
+     * Failure of the item or separator that ended the repetition, if any
+     */
+    stoppedBy?: MatchFailureReport;
+}
+
+function valuesOf(matches: PatternMatch[]): any[] {
+    return matches.map(m =>
+        (typeof m.$value === "object") ?
+            m :
+            m.$value,
+    );
 }
 
 /**
@@ -145,6 +300,9 @@ export class Rep1 extends Repetition {
     }
 }
 
+/**
+ * Match 0 or more times, with a separator
+ */
 export class RepSep extends Repetition {
 
     constructor(o: any, sep: any) {
@@ -152,6 +310,9 @@ export class RepSep extends Repetition {
     }
 }
 
+/**
+ * Match 1 or more times, with a separator
+ */
 export class Rep1Sep extends Repetition {
 
     constructor(o: any, sep: any) {
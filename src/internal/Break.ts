@@ -1,7 +1,8 @@
 import { InputState } from "../InputState";
-import { MatchingLogic } from "../Matchers";
-import { isSuccessfulMatch, MatchFailureReport, MatchPrefixResult, matchPrefixSuccess } from "../MatchPrefixResult";
-import { isTreePatternMatch, TerminalPatternMatch } from "../PatternMatch";
+import { Alternatives, BacktrackingMatchingLogic, FirstCharacters, MatchingLogic } from "../Matchers";
+import { isSuccessfulMatch, MatchFailureReport, MatchPrefixResult, matchPrefixSuccess, SuccessfulMatch } from "../MatchPrefixResult";
+import { isTreePatternMatch, PatternMatch, TerminalPatternMatch } from "../PatternMatch";
+import { invokeMatchPrefix } from "./InvokeMatchPrefix";
 import { readyToMatch } from "./Whitespace";
 
 /**
@@ -14,7 +15,7 @@ import { readyToMatch } from "./Whitespace";
  * This implementation goes beyond SNOBOL, in that it allows the break to consume the end token,
  * and also allows the ability to specify a pattern that must not be found.
  */
-export class Break implements MatchingLogic {
+export class Break implements BacktrackingMatchingLogic {
 
     /**
      * Consume input until (or until and including) the terminal match
@@ -26,8 +27,8 @@ export class Break implements MatchingLogic {
      * If we see this pattern before, the match breaks.
      */
     constructor(public terminateOn: MatchingLogic,
-                private consume: boolean = false,
-                private badMatcher?: MatchingLogic) {
+                public readonly consume: boolean = false,
+                public readonly badMatcher?: MatchingLogic) {
     }
 
     get $id() {
@@ -46,39 +47,125 @@ export class Break implements MatchingLogic {
             undefined;
     }
 
+    /**
+     * We can't know, as we may skip any character before the terminal
+     */
+    get firstCharacters(): FirstCharacters {
+        return undefined;
+    }
+
     public matchPrefix(is: InputState, thisMatchContext, parseContext): MatchPrefixResult {
-        let currentIs = is;
-        let matched = "";
+        return this.scan(is, is, "", thisMatchContext, parseContext).result;
+    }
+
+    /**
+     * Offer matches up to later occurrences of the terminal
+     */
+    public alternatives(is: InputState, thisMatchContext, parseContext): Alternatives {
+        let last = this.scan(is, is, "", thisMatchContext, parseContext);
+        return {
+            next: () => {
+                if (!last.terminalFound || last.terminalState.exhausted()) {
+                    return undefined;
+                }
+                last = this.scan(is,
+                    last.terminalState.advance(),
+                    last.skipped + last.terminalState.peek(1),
+                    thisMatchContext, parseContext);
+                return last.terminalFound ?
+                    last.result as SuccessfulMatch :
+                    undefined;
+            },
+        };
+    }
+
+    /**
+     * Scan for the terminal
+     * @param is input state the match began at
+     * @param from input state to scan from
+     * @param skipped what we've already skipped between is and from
+     */
+    private scan(is: InputState, from: InputState, skipped: string, thisMatchContext, parseContext): Scan {
+        let currentIs = from;
+        let matched = skipped;
 
         // Apply optimization if possible where we skip to the terminal if we're consuming it and not avoiding a bad match
         if (this.consume && !this.badMatcher) {
-            const skipped = readyToMatch(currentIs, false, this.terminateOn);
-            matched += skipped.skipped;
-            currentIs = skipped.state;
+            const skippedToTerminal = readyToMatch(currentIs, false, this.terminateOn);
+            matched += skippedToTerminal.skipped;
+            currentIs = skippedToTerminal.state;
         }
-        let terminalMatch: MatchPrefixResult = this.terminateOn.matchPrefix(currentIs, thisMatchContext, parseContext);
+        let terminalMatch: MatchPrefixResult = invokeMatchPrefix(this.terminateOn, currentIs, thisMatchContext, parseContext);
         while (!currentIs.exhausted() && !isSuccessfulMatch(terminalMatch)) { // if it fits, it sits
             // But we can't match the bad match if it's defined
             if (this.badMatcher) {
-                if (isSuccessfulMatch(this.badMatcher.matchPrefix(currentIs, thisMatchContext, parseContext))) {
-                    return new MatchFailureReport(this.$id, is.offset);
+                if (isSuccessfulMatch(invokeMatchPrefix(this.badMatcher, currentIs, thisMatchContext, parseContext))) {
+                    return {
+                        result: new MatchFailureReport(this.$id, is.offset),
+                        terminalFound: false,
+                    };
                 }
             }
             matched += currentIs.peek(1);
             currentIs = currentIs.advance();
             if (!currentIs.exhausted()) {
-                terminalMatch = this.terminateOn.matchPrefix(currentIs, thisMatchContext, parseContext);
+                terminalMatch = invokeMatchPrefix(this.terminateOn, currentIs, thisMatchContext, parseContext);
             }
         }
+        const terminalFound = isSuccessfulMatch(terminalMatch);
         // We have found the terminal if we get here
         if (this.consume && isSuccessfulMatch(terminalMatch)) {
-            terminalMatch.match.$matched = matched + terminalMatch.match.$matched;
-            return matchPrefixSuccess(terminalMatch.match);
+            // Don't modify the terminal match itself, as it may be memoized
+            const consumed = copyOf(terminalMatch.match, is.offset, matched + terminalMatch.match.$matched);
+            return { result: matchPrefixSuccess(consumed), terminalFound, terminalState: currentIs, skipped: matched };
+        }
+        return {
+            result: matchPrefixSuccess(new TerminalPatternMatch(this.$id, matched, is.offset, matched)),
+            terminalFound,
+            terminalState: currentIs,
+            skipped: matched,
+        };
+    }
+}
+
+/**
+ * Result of scanning for the terminal
+ */
+interface Scan {
+
+    result: MatchPrefixResult;
+
+    terminalFound: boolean;
+
+    /**
+     * Input state at which the terminal was found
+     */
+    terminalState?: InputState;
+
+    /**
+     * Content skipped before the terminal
+     */
+    skipped?: string;
+}
+
+/**
+ * Return a copy of the terminal match, with its structure, covering everything we matched.
+ * It's not yet located, as it begins where we did, not where the terminal did
+ */
+function copyOf(pm: PatternMatch, offset: number, matched: string): PatternMatch {
+    const copy = Object.create(Object.getPrototypeOf(pm));
+    for (const key of Object.getOwnPropertyNames(pm)) {
+        if (LocationProperties.indexOf(key) === -1) {
+            copy[key] = pm[key];
         }
-        return matchPrefixSuccess(new TerminalPatternMatch(this.$id, matched, is.offset, matched));
     }
+    copy.$offset = offset;
+    copy.$matched = matched;
+    return copy;
 }
 
+const LocationProperties = ["$line", "$column", "$endLine", "$endColumn"];
+
 export function isBreak(thing: MatchingLogic): thing is Break {
     return !!(thing as Break).terminateOn;
 }
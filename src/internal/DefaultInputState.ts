@@ -1,12 +1,13 @@
 import { InputState, Listeners, Skipped } from "../InputState";
 import { InputStateManager } from "./InputStateManager";
+import { prefixSearchFor } from "./PrefixSearch";
 
 /**
  * Default InputState implementation
  */
 export class DefaultInputState implements InputState {
 
-    public constructor(private readonly ism: InputStateManager,
+    public constructor(public readonly ism: InputStateManager,
                        public readonly offset: number,
                        public listeners?: Listeners) {
     }
@@ -20,6 +21,18 @@ export class DefaultInputState implements InputState {
         return this.skipWhile(s => s !== what, what.length);
     }
 
+    /**
+     * Skip to before the first occurrence of any of these patterns, in a single pass.
+     * @param what what to skip to
+     * @return {InputState}
+     */
+    public skipToAny(what: string[]): Skipped {
+        const offset = prefixSearchFor(what).find(o => this.ism.get(o, 1), this.offset);
+        return (offset === -1) ?
+            this.skipWhile(s => true, 1) :
+            this.skippedTo(offset);
+    }
+
     /**
      * Skip input while it matches the given function
      * @param skip skip till
@@ -31,12 +44,7 @@ export class DefaultInputState implements InputState {
         while (this.ism.canSatisfy(offset) && skip(this.ism.get(offset, n))) {
             ++offset;
         }
-        const is = new DefaultInputState(this.ism, offset);
-        const skipped = is.seenSince(this);
-        if (this.listeners) {
-            is.listeners = cloneListeners(this.listeners, skipped);
-        }
-        return {skipped, state: is};
+        return this.skippedTo(offset);
     }
 
     /**
@@ -90,6 +98,18 @@ export class DefaultInputState implements InputState {
         return this.ism.get(this.offset, n);
     }
 
+    /**
+     * Return the state at this offset, with listeners having seen what we skipped
+     */
+    private skippedTo(offset: number): Skipped {
+        const is = new DefaultInputState(this.ism, offset);
+        const skipped = is.seenSince(this);
+        if (this.listeners) {
+            is.listeners = cloneListeners(this.listeners, skipped);
+        }
+        return {skipped, state: is};
+    }
+
     /**
      * What substring has been read since the given state
      * @param l previous input state
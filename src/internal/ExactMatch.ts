@@ -2,36 +2,41 @@ import { Listeners } from "../InputState";
 import { MatchingLogic } from "../Matchers";
 import { Concat } from "../matchers/Concat";
 import { RestOfInput } from "../matchers/skip/Skip";
-import { isSuccessfulMatch, MatchFailureReport } from "../MatchPrefixResult";
+import { MatchingOptions } from "../MatchingOptions";
+import { isSuccessfulMatch, MatchFailureReport, toFailureReport } from "../MatchPrefixResult";
 import { DismatchReport, PatternMatch } from "../PatternMatch";
 import { InputStream } from "../spi/InputStream";
-import { StringInputStream } from "../spi/StringInputStream";
-import { inputStateFromStream } from "./InputStateFactory";
+import { initialInputState, streamInRange } from "./InputRange";
+import { toInputStream } from "./InputStateFactory";
+import { InputStateManager } from "./InputStateManager";
+import { positionsFor } from "./LinePositions";
+import { memoFor } from "./MatchMemo";
+import { budgetFor } from "./RunBudget";
 
 export function exactMatch<T>(matcher: MatchingLogic, input: string | InputStream,
                               parseContext = {},
-                              l?: Listeners): PatternMatch & T | DismatchReport {
+                              l?: Listeners,
+                              options: MatchingOptions = {}): PatternMatch & T | DismatchReport {
 
     const wrapped = Concat.of({
         desired: matcher,
         trailingJunk: RestOfInput,
     });
-    const result = wrapped.matchPrefix(inputStateFromStream(toInputStream(input), l), {}, parseContext);
+    const ism = new InputStateManager(streamInRange(toInputStream(input), options), undefined,
+        memoFor(options), budgetFor(options), positionsFor(options), options.tracer);
+    const is = initialInputState(ism, options, l);
+    const result = wrapped.matchPrefix(is, {}, parseContext);
 
     if (isSuccessfulMatch(result)) {
         const detyped = result.match as any;
         if (detyped.trailingJunk !== "") {
-            return {description:
-                `Not all input was consumed: Left over [${detyped.trailingJunk.$matched}]`};
+            return new MatchFailureReport(matcher.$id, detyped.$valueMatches.trailingJunk.$offset, {},
+                `Not all input was consumed: Left over [${detyped.trailingJunk}]`, [], "end of input");
         } else {
             return detyped.desired as (PatternMatch & T);
         }
     }
-    return result as MatchFailureReport;
-}
-
-function toInputStream(input: string | InputStream): InputStream {
-    return (typeof input === "string") ?
-        new StringInputStream(input) :
-        input;
+    // Report what we expected where we got furthest
+    const failure = toFailureReport(result);
+    return new MatchFailureReport(matcher.$id, is.offset, {}, failure.furthestFailure, failure.children);
 }
@@ -0,0 +1,355 @@
+import { InputState, Skipped } from "../InputState";
+import { FirstCharacters, MatchingLogic } from "../Matchers";
+
+/**
+ * Matchers whose first characters we're computing. Grammars may be recursive.
+ */
+const computing: MatchingLogic[] = [];
+
+/**
+ * Return the characters a match of this matcher may begin with, or undefined if we don't know
+ * @param ml matcher
+ * @return {FirstCharacters}
+ */
+export function firstCharactersOf(ml: MatchingLogic): FirstCharacters {
+    if (!ml || computing.indexOf(ml) !== -1) {
+        // We're going round in circles
+        return undefined;
+    }
+    computing.push(ml);
+    try {
+        const first = ml.firstCharacters;
+        if (first) {
+            return first;
+        }
+        return ml.requiredPrefix ?
+            { characters: ml.requiredPrefix.charAt(0), canMatchEmpty: false } :
+            undefined;
+    } finally {
+        computing.pop();
+    }
+}
+
+/**
+ * Return the characters a match of any of these matchers may begin with,
+ * or undefined if we don't know them all
+ * @param matchers matchers
+ * @return {FirstCharacters}
+ */
+export function firstCharactersOfAny(matchers: MatchingLogic[]): FirstCharacters {
+    return anyOf(matchers.map(firstCharactersOf));
+}
+
+/**
+ * Return the characters a match of these matchers in sequence may begin with,
+ * or undefined if we don't know
+ * @param matchers matchers
+ * @return {FirstCharacters}
+ */
+export function firstCharactersOfSequence(matchers: MatchingLogic[]): FirstCharacters {
+    return sequence(matchers.map(m => () => firstCharactersOf(m)));
+}
+
+/**
+ * Return whether a match with these first characters can begin with this character.
+ * Whitespace is never excluded, as whether it's consumed depends on context.
+ */
+export function mayBeginWith(first: FirstCharacters, char: string): boolean {
+    return !first || char.trim() === "" || first.characters.indexOf(char) !== -1;
+}
+
+/**
+ * Skip characters that can't begin a match with these first characters,
+ * and whitespace if appropriate
+ * @param is current input state
+ * @param consumeWhiteSpaceBetweenTokens should we skip whitespace
+ * @param first first characters of what we want to match
+ * @return {Skipped}
+ */
+export function skipToPossibleStart(is: InputState,
+                                    consumeWhiteSpaceBetweenTokens: boolean,
+                                    first: FirstCharacters): Skipped {
+    return is.skipWhile(c => (consumeWhiteSpaceBetweenTokens && c.trim() === "") || !mayBeginWith(first, c), 1);
+}
+
+/**
+ * Return the characters a match of this regex may begin with, or undefined if we can't work it out.
+ * We understand literals, escapes, character classes, groups, alternation and quantifiers:
+ * enough for the regexes typically found in grammars.
+ * @param regex regex
+ * @return {FirstCharacters}
+ */
+export function firstCharactersOfRegex(regex: RegExp): FirstCharacters {
+    try {
+        const parser = new RegexFirstCharacters(regex.source, regex.ignoreCase);
+        const first = parser.alternatives();
+        return parser.atEnd() ? first : undefined;
+    } catch (e) {
+        return undefined;
+    }
+}
+
+function anyOf(firsts: FirstCharacters[]): FirstCharacters {
+    let characters = "";
+    let canMatchEmpty = false;
+    for (const first of firsts) {
+        if (!first) {
+            return undefined;
+        }
+        characters = union(characters, first.characters);
+        canMatchEmpty = canMatchEmpty || first.canMatchEmpty;
+    }
+    return { characters, canMatchEmpty };
+}
+
+/**
+ * Compute lazily, as we needn't look beyond an element that can't match the empty string
+ */
+function sequence(firsts: Array<() => FirstCharacters>): FirstCharacters {
+    let characters = "";
+    for (const f of firsts) {
+        const first = f();
+        if (!first) {
+            return undefined;
+        }
+        characters = union(characters, first.characters);
+        if (!first.canMatchEmpty) {
+            return { characters, canMatchEmpty: false };
+        }
+    }
+    return { characters, canMatchEmpty: true };
+}
+
+function union(a: string, b: string): string {
+    let result = a;
+    for (const char of b.split("")) {
+        if (result.indexOf(char) === -1) {
+            result += char;
+        }
+    }
+    return result;
+}
+
+/**
+ * A regex construct that matches the empty string, such as an anchor or lookaround
+ */
+const ZERO_WIDTH: FirstCharacters = { characters: "", canMatchEmpty: true };
+
+const DIGITS = "0123456789";
+
+const WORD_CHARACTERS = "abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ" + DIGITS + "_";
+
+/**
+ * Characters we're prepared to expand a range to
+ */
+const MAX_RANGE = 256;
+
+const CONTROL_ESCAPES = { t: "\t", n: "\n", r: "\r", f: "\f", v: "\v", 0: "\0" };
+
+/**
+ * Recursive descent over regex source. Throws on anything we don't understand.
+ */
+class RegexFirstCharacters {
+
+    private pos = 0;
+
+    constructor(private source: string, private ignoreCase: boolean) {
+    }
+
+    public atEnd(): boolean {
+        return this.pos === this.source.length;
+    }
+
+    public alternatives(): FirstCharacters {
+        const alternatives = [this.sequence()];
+        while (this.peek() === "|") {
+            ++this.pos;
+            alternatives.push(this.sequence());
+        }
+        return anyOf(alternatives);
+    }
+
+    private sequence(): FirstCharacters {
+        const items: FirstCharacters[] = [];
+        while (!this.atEnd() && this.peek() !== "|" && this.peek() !== ")") {
+            items.push(this.quantified());
+        }
+        return sequence(items.map(i => () => i));
+    }
+
+    private quantified(): FirstCharacters {
+        const atom = this.atom();
+        const quantifier = this.peek();
+        let optional = false;
+        if (quantifier === "*" || quantifier === "?") {
+            ++this.pos;
+            optional = true;
+        } else if (quantifier === "+") {
+            ++this.pos;
+        } else if (quantifier === "{" && /^\{\d+(,\d*)?\}/.test(this.source.substr(this.pos))) {
+            const bounds = /^\{(\d+)(,\d*)?\}/.exec(this.source.substr(this.pos));
+            this.pos += bounds[0].length;
+            optional = +bounds[1] === 0;
+        }
+        if (this.peek() === "?") {
+            // Lazy quantifier: makes no difference to what can come first
+            ++this.pos;
+        }
+        return (atom && optional) ?
+            { characters: atom.characters, canMatchEmpty: true } :
+            atom;
+    }
+
+    private atom(): FirstCharacters {
+        const char = this.next();
+        switch (char) {
+            case "^":
+            case "$":
+                return ZERO_WIDTH;
+            case ".":
+                return undefined;
+            case "[":
+                return this.characterClass();
+            case "(":
+                return this.group();
+            case "\\":
+                return this.escape(false);
+            case "*":
+            case "+":
+            case "?":
+            case "{":
+            case ")":
+            case "|":
+                throw new Error(`Unexpected [${char}] in regex`);
+            default:
+                return this.characters(char);
+        }
+    }
+
+    private group(): FirstCharacters {
+        let zeroWidth = false;
+        if (this.peek() === "?") {
+            ++this.pos;
+            const kind = this.next();
+            if (kind === "=" || kind === "!") {
+                zeroWidth = true;
+            } else if (kind === "<" && (this.peek() === "=" || this.peek() === "!")) {
+                ++this.pos;
+                zeroWidth = true;
+            } else if (kind === "<") {
+                // Named group
+                while (this.next() !== ">") {
+                    // Skip the name
+                }
+            } else if (kind !== ":") {
+                throw new Error(`Unsupported group (?${kind}`);
+            }
+        }
+        const inner = this.alternatives();
+        if (this.next() !== ")") {
+            throw new Error("Unterminated group");
+        }
+        return zeroWidth ? ZERO_WIDTH : inner;
+    }
+
+    private characterClass(): FirstCharacters {
+        if (this.peek() === "^") {
+            return undefined;
+        }
+        let characters = "";
+        while (this.peek() !== "]") {
+            const from = this.classMember();
+            if (this.peek() === "-" && this.source.charAt(this.pos + 1) !== "]") {
+                ++this.pos;
+                const to = this.classMember();
+                if (!from || !to || from.characters.length !== 1 || to.characters.length !== 1) {
+                    return undefined;
+                }
+                const start = from.characters.charCodeAt(0);
+                const end = to.characters.charCodeAt(0);
+                if (end - start > MAX_RANGE) {
+                    return undefined;
+                }
+                for (let code = start; code <= end; code++) {
+                    characters = union(characters, this.characters(String.fromCharCode(code)).characters);
+                }
+            } else if (!from) {
+                return undefined;
+            } else {
+                characters = union(characters, from.characters);
+            }
+        }
+        ++this.pos;
+        return { characters, canMatchEmpty: false };
+    }
+
+    private classMember(): FirstCharacters {
+        const char = this.next();
+        return (char === "\\") ?
+            this.escape(true) :
+            this.characters(char);
+    }
+
+    private escape(inClass: boolean): FirstCharacters {
+        const char = this.next();
+        switch (char) {
+            case "d":
+                return { characters: DIGITS, canMatchEmpty: false };
+            case "w":
+                return { characters: WORD_CHARACTERS, canMatchEmpty: false };
+            case "s":
+                // Whitespace is never excluded
+                return { characters: "", canMatchEmpty: false };
+            case "b":
+                return inClass ? this.characters("\b") : ZERO_WIDTH;
+            case "B":
+                return ZERO_WIDTH;
+            case "D":
+            case "W":
+            case "S":
+            case "p":
+            case "P":
+                return undefined;
+            case "x":
+                return this.characters(this.hex(2));
+            case "u":
+                return this.characters(this.hex(4));
+            default:
+                if (CONTROL_ESCAPES[char]) {
+                    return this.characters(CONTROL_ESCAPES[char]);
+                }
+                if (/[1-9ck]/.test(char)) {
+                    // Back reference, control character or named back reference
+                    return undefined;
+                }
+                return this.characters(char);
+        }
+    }
+
+    private hex(digits: number): string {
+        const hex = this.source.substr(this.pos, digits);
+        if (!new RegExp(`^[0-9a-fA-F]{${digits}}$`).test(hex)) {
+            throw new Error(`Invalid hex escape [${hex}]`);
+        }
+        this.pos += digits;
+        return String.fromCharCode(parseInt(hex, 16));
+    }
+
+    private characters(char: string): FirstCharacters {
+        const characters = this.ignoreCase ?
+            union(char.toLowerCase(), char.toUpperCase()) :
+            char;
+        return { characters, canMatchEmpty: false };
+    }
+
+    private peek(): string {
+        return this.source.charAt(this.pos);
+    }
+
+    private next(): string {
+        if (this.atEnd()) {
+            throw new Error("Unexpected end of regex");
+        }
+        return this.source.charAt(this.pos++);
+    }
+}
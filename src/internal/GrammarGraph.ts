@@ -0,0 +1,133 @@
+import { Matcher, MatchingLogic } from "../Matchers";
+import { Concat, isMatcher, isNamedMatcher } from "../matchers/Concat";
+import { CBlock } from "../matchers/lang/cfamily/CBlock";
+import { Lookahead } from "../matchers/Lookahead";
+import { Alt, Longest, Opt } from "../Ops";
+import { AbstractRegex, isLiteral } from "../Primitives";
+import { Repetition } from "../Rep";
+import { isBreak } from "./Break";
+
+/**
+ * Kind of a node in a grammar graph
+ */
+export type GrammarNodeKind = "sequence" | "choice" | "longest" | "optional" | "repeat" | "skip" |
+    "lookahead" | "literal" | "regex" | "block" | "other";
+
+/**
+ * Edge from a node to a node it's composed of
+ */
+export interface GrammarEdge {
+
+    /**
+     * Step name, or the role of the child, such as "separator"
+     */
+    name?: string;
+
+    node: GrammarNode;
+}
+
+/**
+ * A matcher in a grammar, classified for display.
+ * Nodes are shared, so the graph of a recursive grammar contains cycles.
+ */
+export interface GrammarNode {
+
+    /**
+     * Unique within the graph, in the order nodes were found
+     */
+    index: number;
+
+    kind: GrammarNodeKind;
+
+    /**
+     * Text to display: for example, the literal, the regex or the $id
+     */
+    label: string;
+
+    children: GrammarEdge[];
+
+    /**
+     * For a repetition, the bounds. For a skip, whether the terminator is consumed.
+     * For a lookahead, whether it's positive.
+     */
+    min?: number;
+    max?: number;
+    consume?: boolean;
+    positive?: boolean;
+}
+
+/**
+ * Classify the matchers of a grammar, returning the node for the root.
+ * Named matchers are unwrapped, their names becoming the names of edges.
+ * @param ml root matcher
+ * @return {GrammarNode}
+ */
+export function grammarGraph(ml: MatchingLogic): GrammarNode {
+    const nodes: Array<{ matcher: MatchingLogic, node: GrammarNode }> = [];
+
+    const nodeFor = (m: MatchingLogic): GrammarNode => {
+        while (isNamedMatcher(m)) {
+            m = m.ml;
+        }
+        const existing = nodes.filter(n => n.matcher === m)[0];
+        if (existing) {
+            return existing.node;
+        }
+        const node: GrammarNode = { index: nodes.length, kind: "other", label: idOf(m), children: [] };
+        nodes.push({ matcher: m, node });
+        classify(m, node, nodeFor);
+        return node;
+    };
+
+    return nodeFor(ml);
+}
+
+function classify(m: MatchingLogic, node: GrammarNode, nodeFor: (m: MatchingLogic) => GrammarNode) {
+    const edge = (child: MatchingLogic, name?: string) => {
+        if (child) {
+            node.children.push({ name, node: nodeFor(child) });
+        }
+    };
+    if (m instanceof Concat) {
+        node.kind = "sequence";
+        (m.matchSteps.filter(isMatcher) as Matcher[]).forEach(step => edge(step, step.name));
+    } else if (m instanceof Alt) {
+        node.kind = "choice";
+        m.matchers.forEach(alternative => edge(alternative));
+    } else if (m instanceof Longest) {
+        node.kind = "longest";
+        m.matchers.forEach(alternative => edge(alternative));
+    } else if (m instanceof Opt) {
+        node.kind = "optional";
+        edge(m.matcher);
+    } else if (m instanceof Repetition) {
+        node.kind = "repeat";
+        node.min = m.min;
+        node.max = m.max;
+        edge(m.matcher);
+        edge(m.sepMatcher, "separator");
+    } else if (isBreak(m)) {
+        node.kind = "skip";
+        node.consume = m.consume;
+        edge(m.terminateOn);
+        edge(m.badMatcher, "unless");
+    } else if (m instanceof Lookahead) {
+        node.kind = "lookahead";
+        node.positive = m.positive;
+        edge(m.matcher);
+    } else if (isLiteral(m)) {
+        node.kind = "literal";
+        node.label = m.literal;
+    } else if (m instanceof AbstractRegex) {
+        node.kind = "regex";
+        node.label = `/${m.regex.source.replace(/^\^/, "")}/`;
+    } else if (m instanceof CBlock) {
+        node.kind = "block";
+        node.label = m.kind === "block" ? "{...}" : "(...)";
+        edge(m.inner, "within");
+    }
+}
+
+function idOf(m: MatchingLogic): string {
+    return m.$id || (m.constructor as any).name || "matcher";
+}
@@ -0,0 +1,58 @@
+import { InputState, Listeners } from "../InputState";
+import { MatchingOptions } from "../MatchingOptions";
+import { InputStream } from "../spi/InputStream";
+import { DefaultInputState } from "./DefaultInputState";
+import { InputStateManager } from "./InputStateManager";
+
+/**
+ * Return the stream to read for a run with these options:
+ * the given stream, ending at the end offset if there is one
+ * @param input stream to read
+ * @param options options for the run
+ * @return {InputStream}
+ */
+export function streamInRange(input: InputStream, options: MatchingOptions): InputStream {
+    const start = options.startOffset || 0;
+    if (start < 0) {
+        throw new Error(`Invalid start offset ${start}`);
+    }
+    if (options.endOffset === undefined) {
+        return input;
+    }
+    if (options.endOffset < start) {
+        throw new Error(`Invalid end offset ${options.endOffset}: before start offset ${start}`);
+    }
+    return new BoundedInputStream(input, options.endOffset);
+}
+
+/**
+ * Return the input state at which a run with these options begins
+ * @param ism input state manager for the run
+ * @param options options for the run
+ * @param l listeners observing input characters as they are read
+ * @return {InputState}
+ */
+export function initialInputState(ism: InputStateManager, options: MatchingOptions, l?: Listeners): InputState {
+    return new DefaultInputState(ism, options.startOffset || 0, l);
+}
+
+/**
+ * Stream that appears to end after a given number of characters
+ */
+class BoundedInputStream implements InputStream {
+
+    private offset = 0;
+
+    constructor(private readonly delegate: InputStream, private readonly end: number) {
+    }
+
+    public exhausted(): boolean {
+        return this.offset >= this.end || this.delegate.exhausted();
+    }
+
+    public read(n: number): string {
+        const s = this.delegate.read(Math.min(n, this.end - this.offset));
+        this.offset += s.length;
+        return s;
+    }
+}
@@ -4,6 +4,8 @@ import { StringInputStream } from "../spi/StringInputStream";
 import { InputStream } from "../spi/InputStream";
 import { DefaultInputState } from "./DefaultInputState";
 import { InputStateManager } from "./InputStateManager";
+import { inputStateManagerOf } from "./InvokeMatchPrefix";
+import { LinePositions } from "./LinePositions";
 
 /**
  * Return an input state from a string
@@ -17,6 +19,17 @@ export function inputStateFromString(s: string, l?: Listeners, offset: number =
     return inputStateFromStream(new StringInputStream(s, offset), l, offset);
 }
 
+/**
+ * Return an input stream for the input
+ * @param input string or input stream
+ * @return {InputStream}
+ */
+export function toInputStream(input: string | InputStream): InputStream {
+    return (typeof input === "string") ?
+        new StringInputStream(input) :
+        input;
+}
+
 /**
  * Return an input state from a stream
  * @param str input stream
@@ -26,5 +39,26 @@ export function inputStateFromString(s: string, l?: Listeners, offset: number =
  * @returns {InputState}
  */
 export function inputStateFromStream(str: InputStream, l?: Listeners, offset: number = 0): InputState {
-    return new DefaultInputState(new InputStateManager(str), offset, l);
+    return new DefaultInputState(
+        new InputStateManager(str, undefined, undefined, undefined, new LinePositions(undefined, undefined, offset)),
+        offset, l);
+}
+
+/**
+ * Return an input state over content found at the given input state, such as the content of a match,
+ * to match within it. Offsets, lines and columns of matches within the content are those in the whole input.
+ * The run budget and tracer, if any, still apply.
+ * @param is input state at which the content was found
+ * @param s content
+ * @returns {InputState}
+ */
+export function inputStateWithin(is: InputState, s: string): InputState {
+    const ism = inputStateManagerOf(is);
+    if (!ism) {
+        return inputStateFromString(s, undefined, is.offset);
+    }
+    return new DefaultInputState(
+        new InputStateManager(new StringInputStream(s, is.offset), undefined, undefined,
+            ism.budget, ism.positions.startingAt(is.offset), ism.tracer),
+        is.offset);
 }
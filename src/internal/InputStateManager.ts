@@ -1,5 +1,10 @@
 
+import { MatchTracer } from "../MatchTracer";
 import { InputStream } from "../spi/InputStream";
+import { RecursionHeads } from "./LeftRecursion";
+import { LinePositions } from "./LinePositions";
+import { MatchMemo } from "./MatchMemo";
+import { RunBudget } from "./RunBudget";
 
 const DEFAULT_BUFFER_SIZE = 5000;
 
@@ -9,11 +14,32 @@ const DEFAULT_BUFFER_SIZE = 5000;
  */
 export class InputStateManager {
 
-    private left = 0;
+    /**
+     * Matchers in progress, for left recursion detection
+     */
+    public readonly recursionHeads = new RecursionHeads();
+
+    private left: number;
 
     private window: string = "";
 
-    constructor(private stream: InputStream, private bufsize: number = DEFAULT_BUFFER_SIZE) {
+    /**
+     * Create a window over the stream
+     * @param stream stream to read
+     * @param bufsize number of characters to read at a time
+     * @param memo memo for matchPrefix results, if the run is memoized
+     * @param budget budget for the run, if it's limited
+     * @param positions tracker for the lines and columns of the input,
+     * which begins at the tracker's start offset
+     * @param tracer tracer to tell about matchPrefix invocations, if the run is traced
+     */
+    constructor(private stream: InputStream,
+                private bufsize: number = DEFAULT_BUFFER_SIZE,
+                public readonly memo?: MatchMemo,
+                public readonly budget?: RunBudget,
+                public readonly positions: LinePositions = new LinePositions(),
+                public readonly tracer?: MatchTracer) {
+        this.left = positions.startOffset;
     }
 
     public get(offset: number, n: number): string {
@@ -26,7 +52,9 @@ export class InputStateManager {
             throw new Error(`Cannot rewind to offset ${offset}: already at ${this.left}`);
         }
         if (offset > this.right()) {
-            this.window += this.stream.read(Math.max(this.bufsize, offset - this.right()));
+            const read = this.stream.read(Math.max(this.bufsize, offset - this.right()));
+            this.positions.record(read);
+            this.window += read;
         }
         return this.right() >= offset;
     }
@@ -40,6 +68,10 @@ export class InputStateManager {
             this.window = this.window.substr(offset - this.left);
             this.left = offset;
         }
+        if (this.memo) {
+            this.memo.dropLeft(offset);
+        }
+        this.positions.dropLeft(offset);
     }
 
     public exhausted() {
@@ -0,0 +1,83 @@
+import { InputState } from "../InputState";
+import { MatchingLogic } from "../Matchers";
+import { isSuccessfulMatch, MatchPrefixResult } from "../MatchPrefixResult";
+import { DefaultInputState } from "./DefaultInputState";
+import { InputStateManager } from "./InputStateManager";
+
+/**
+ * Invoke the matchPrefix method of the given matcher.
+ * Combinators should call nested matchers through this function,
+ * rather than directly, so that machinery for the current run,
+ * such as memoization, budgets and tracing, can take effect, and matches know their lines and columns.
+ * @param matcher matcher to invoke
+ * @param is input state
+ * @param thisMatchContext context for this match
+ * @param parseContext context for the whole parsing operation
+ * @param step name of the Concat step the matcher is matching, if any
+ * @return {MatchPrefixResult}
+ */
+export function invokeMatchPrefix(matcher: MatchingLogic,
+                                  is: InputState,
+                                  thisMatchContext: {},
+                                  parseContext: {},
+                                  step?: string): MatchPrefixResult {
+    const ism = inputStateManagerOf(is);
+    if (!ism) {
+        return matcher.matchPrefix(is, thisMatchContext, parseContext);
+    }
+    if (!ism.tracer) {
+        return invokeWithin(ism, matcher, is, thisMatchContext, parseContext);
+    }
+    ism.tracer.enter(matcher, is.offset, step);
+    let traced: MatchPrefixResult;
+    try {
+        traced = invokeWithin(ism, matcher, is, thisMatchContext, parseContext);
+        return traced;
+    } finally {
+        // Exit even if the invocation is abandoned, as when the budget is exceeded or a stream needs more input
+        ism.tracer.exit(matcher, is.offset, traced);
+    }
+}
+
+/**
+ * Invoke the matcher with the memo and budget of the run
+ */
+function invokeWithin(ism: InputStateManager,
+                      matcher: MatchingLogic,
+                      is: InputState,
+                      thisMatchContext: {},
+                      parseContext: {}): MatchPrefixResult {
+    if (!ism.memo) {
+        if (ism.budget) {
+            ism.budget.charge(matcher, is.offset);
+        }
+        return located(matcher.matchPrefix(is, thisMatchContext, parseContext), ism);
+    }
+    const cached = ism.memo.get(matcher, is.offset);
+    if (cached) {
+        return cached;
+    }
+    if (ism.budget) {
+        ism.budget.charge(matcher, is.offset);
+    }
+    const result = located(matcher.matchPrefix(is, thisMatchContext, parseContext), ism);
+    ism.memo.put(matcher, is.offset, result);
+    return result;
+}
+
+/**
+ * Return the InputStateManager backing this input state, if we know it
+ */
+export function inputStateManagerOf(is: InputState): InputStateManager {
+    return (is instanceof DefaultInputState) ? is.ism : undefined;
+}
+
+/**
+ * Set the line and column of a successful match, unless a nested matcher already has
+ */
+function located(result: MatchPrefixResult, ism: InputStateManager): MatchPrefixResult {
+    if (isSuccessfulMatch(result) && result.match.$line === undefined) {
+        ism.positions.locate(result.match);
+    }
+    return result;
+}
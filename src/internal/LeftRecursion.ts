@@ -0,0 +1,111 @@
+import { InputState } from "../InputState";
+import { MatchingLogic } from "../Matchers";
+import { isSuccessfulMatch, MatchFailureReport, MatchPrefixResult } from "../MatchPrefixResult";
+import { inputStateManagerOf } from "./InvokeMatchPrefix";
+
+/**
+ * A matcher that is in the process of matching at a given offset,
+ * and may turn out to be left recursive.
+ */
+export interface RecursionHead {
+
+    readonly matcher: MatchingLogic;
+
+    readonly offset: number;
+
+    /**
+     * Best result so far. Returned to recursive invocations at the same offset.
+     */
+    seed: MatchPrefixResult;
+
+    /**
+     * Did the matcher invoke itself at the same offset?
+     */
+    recursed: boolean;
+}
+
+/**
+ * Matchers in progress during a matching run, used to detect left recursion.
+ * Owned by an InputStateManager.
+ */
+export class RecursionHeads {
+
+    private heads: RecursionHead[] = [];
+
+    public find(matcher: MatchingLogic, offset: number): RecursionHead {
+        for (const head of this.heads) {
+            if (head.matcher === matcher && head.offset === offset) {
+                return head;
+            }
+        }
+        return undefined;
+    }
+
+    public push(head: RecursionHead): void {
+        this.heads.push(head);
+    }
+
+    public remove(head: RecursionHead): void {
+        this.heads.splice(this.heads.indexOf(head), 1);
+    }
+}
+
+/**
+ * Match, supporting left recursion by growing a seed: a recursive invocation
+ * of the matcher at the same offset returns the best result found so far,
+ * initially failure, rather than recursing infinitely.
+ * We keep reevaluating while each pass matches more input than the last.
+ * @param matcher matcher that may be left recursive
+ * @param is input state
+ * @param evaluate function to perform the match
+ * @return {MatchPrefixResult}
+ */
+export function matchAllowingLeftRecursion(matcher: MatchingLogic,
+                                           is: InputState,
+                                           evaluate: () => MatchPrefixResult): MatchPrefixResult {
+    const ism = inputStateManagerOf(is);
+    if (!ism) {
+        return evaluate();
+    }
+    const active = ism.recursionHeads.find(matcher, is.offset);
+    if (active) {
+        if (!active.recursed) {
+            active.recursed = true;
+            // Results computed from here until the head completes depend on the seed
+            if (ism.memo) {
+                ism.memo.suspend();
+            }
+        }
+        return active.seed;
+    }
+
+    const head: RecursionHead = {
+        matcher,
+        offset: is.offset,
+        seed: new MatchFailureReport(matcher.$id, is.offset, {},
+            `Left recursion in ${matcher.$id} at offset ${is.offset}: no seed`),
+        recursed: false,
+    };
+    ism.recursionHeads.push(head);
+    let result: MatchPrefixResult;
+    try {
+        result = evaluate();
+        while (head.recursed && grew(head.seed, result)) {
+            head.seed = result;
+            result = evaluate();
+        }
+    } finally {
+        ism.recursionHeads.remove(head);
+        if (head.recursed && ism.memo) {
+            ism.memo.resume();
+        }
+    }
+    return (head.recursed && isSuccessfulMatch(head.seed)) ?
+        head.seed :
+        result;
+}
+
+function grew(seed: MatchPrefixResult, result: MatchPrefixResult): boolean {
+    return isSuccessfulMatch(result) &&
+        (!isSuccessfulMatch(seed) || result.$matched.length > seed.$matched.length);
+}
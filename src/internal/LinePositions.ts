@@ -0,0 +1,173 @@
+import { MatchingOptions } from "../MatchingOptions";
+import { PatternMatch } from "../PatternMatch";
+
+/**
+ * Line and column in the input, both counted from 1
+ */
+export interface Position {
+
+    line: number;
+
+    column: number;
+}
+
+/**
+ * Tracks where lines begin as input is read, so we can work out
+ * the line and column of any offset we haven't dropped.
+ * Owned by an InputStateManager, which tells it about input as it reads it.
+ */
+export class LinePositions {
+
+    /**
+     * Offsets at which the lines we know about begin, in order
+     */
+    private lineStarts: number[];
+
+    /**
+     * Line number of the first line we know about
+     */
+    private firstLine: number;
+
+    /**
+     * Column of the start of the first line we know about.
+     * Not 1 if we began partway through a line.
+     */
+    private firstColumn: number;
+
+    /**
+     * Offsets of tabs, in order. Only tracked if tabs are wider than one column.
+     */
+    private tabs: number[] = [];
+
+    /**
+     * Offset of the next character we'll be told about
+     */
+    private next: number;
+
+    private afterCarriageReturn = false;
+
+    /**
+     * Create a tracker
+     * @param tabWidth a tab advances the column to one more than the next multiple of this
+     * @param carriageReturnEndsLine does a carriage return not followed by a line feed end a line
+     * @param startOffset offset at which the input begins
+     * @param start line and column at which the input begins
+     */
+    constructor(private readonly tabWidth: number = 1,
+                private readonly carriageReturnEndsLine: boolean = false,
+                public readonly startOffset: number = 0,
+                start: Position = { line: 1, column: 1 }) {
+        this.lineStarts = [startOffset];
+        this.next = startOffset;
+        this.firstLine = start.line;
+        this.firstColumn = start.column;
+    }
+
+    /**
+     * Note input read after everything we've been told about so far
+     * @param s input read
+     */
+    public record(s: string): void {
+        for (let i = 0; i < s.length; i++) {
+            const offset = this.next + i;
+            const char = s.charAt(i);
+            if (char === "\n") {
+                if (this.afterCarriageReturn) {
+                    // \r\n is a single line ending
+                    this.lineStarts[this.lineStarts.length - 1] = offset + 1;
+                } else {
+                    this.lineStarts.push(offset + 1);
+                }
+            } else if (char === "\r" && this.carriageReturnEndsLine) {
+                this.lineStarts.push(offset + 1);
+            } else if (char === "\t" && this.tabWidth > 1) {
+                this.tabs.push(offset);
+            }
+            this.afterCarriageReturn = char === "\r" && this.carriageReturnEndsLine;
+        }
+        this.next += s.length;
+    }
+
+    /**
+     * Return the line and column of this offset
+     * @param offset offset we've been told about, or the offset just after it
+     * @return {Position}
+     */
+    public positionOf(offset: number): Position {
+        const index = countAtOrBefore(this.lineStarts, offset) - 1;
+        if (index < 0) {
+            throw new Error(`Cannot find position of offset ${offset}: already at ${this.lineStarts[0]}`);
+        }
+        const lineStart = this.lineStarts[index];
+        let column = (index === 0 ? this.firstColumn : 1) - 1;
+        let from = lineStart;
+        for (let t = countAtOrBefore(this.tabs, lineStart - 1); t < this.tabs.length && this.tabs[t] < offset; t++) {
+            column += this.tabs[t] - from;
+            column = (Math.floor(column / this.tabWidth) + 1) * this.tabWidth;
+            from = this.tabs[t] + 1;
+        }
+        column += offset - from;
+        return { line: this.firstLine + index, column: column + 1 };
+    }
+
+    /**
+     * Set the line and column of the start and end of this match
+     * @param pm match within the input
+     */
+    public locate(pm: PatternMatch): void {
+        const start = this.positionOf(pm.$offset);
+        const end = this.positionOf(pm.$offset + pm.$matched.length);
+        pm.$line = start.line;
+        pm.$column = start.column;
+        pm.$endLine = end.line;
+        pm.$endColumn = end.column;
+    }
+
+    /**
+     * Return a tracker with the same settings for input beginning at this offset,
+     * such as the content of a match that we're matching within
+     * @param offset offset at which the input begins
+     * @return {LinePositions}
+     */
+    public startingAt(offset: number): LinePositions {
+        return new LinePositions(this.tabWidth, this.carriageReturnEndsLine, offset, this.positionOf(offset));
+    }
+
+    /**
+     * Forget about lines ending before the offset: we will never be asked about them again
+     * @param offset leftmost offset we'll need
+     */
+    public dropLeft(offset: number): void {
+        const index = countAtOrBefore(this.lineStarts, offset) - 1;
+        if (index > 0) {
+            this.firstLine += index;
+            this.firstColumn = 1;
+            this.lineStarts.splice(0, index);
+            this.tabs.splice(0, countAtOrBefore(this.tabs, this.lineStarts[0] - 1));
+        }
+    }
+}
+
+/**
+ * Return a tracker for a run with these options
+ */
+export function positionsFor(options: MatchingOptions): LinePositions {
+    return new LinePositions(options.tabWidth, options.carriageReturnEndsLine);
+}
+
+/**
+ * Return the number of elements of this sorted array that are at or before the value
+ */
+function countAtOrBefore(sorted: number[], value: number): number {
+    let low = 0;
+    let high = sorted.length;
+    while (low < high) {
+        const mid = Math.floor((low + high) / 2);
+        if (sorted[mid] <= value) {
+            low = mid + 1;
+        } else {
+            high = mid;
+        }
+    }
+    return low;
+}
@@ -0,0 +1,136 @@
+import { InputState, Listeners } from "../InputState";
+import { FirstCharacters, MatchingLogic } from "../Matchers";
+import { MatchingOptions, MatchMode } from "../MatchingOptions";
+import { isSuccessfulMatch, MatchPrefixResult } from "../MatchPrefixResult";
+import { PatternMatch } from "../PatternMatch";
+import { InputStream } from "../spi/InputStream";
+import { firstCharactersOf, skipToPossibleStart } from "./FirstCharacters";
+import { initialInputState, streamInRange } from "./InputRange";
+import { InputStateManager } from "./InputStateManager";
+import { invokeMatchPrefix } from "./InvokeMatchPrefix";
+import { positionsFor } from "./LinePositions";
+import { memoFor } from "./MatchMemo";
+import { budgetFor } from "./RunBudget";
+import { readyToMatch } from "./Whitespace";
+
+/**
+ * Outcome of trying to match at a point in the input
+ */
+export interface ScanStep {
+
+    match?: PatternMatch;
+
+    /**
+     * Where to continue, or undefined if input is exhausted
+     */
+    next?: InputState;
+
+    /**
+     * Where we tried to match, after skipping what couldn't start a match
+     */
+    tried?: InputState;
+
+    /**
+     * Result of trying to match there, which may be an empty match we don't accept
+     */
+    result?: MatchPrefixResult;
+}
+
+/**
+ * Find matches in the input, yielding each as it is found.
+ * Nothing is read until the first match is requested.
+ * @param matcher matcher to use
+ * @param input input to read
+ * @param parseContext context for the whole parsing operation
+ * @param l listeners observing input characters as they are read
+ * @param options options for this matching run
+ */
+export function* matchIterator<T>(matcher: MatchingLogic,
+                                  input: InputStream,
+                                  parseContext: {},
+                                  l: Listeners,
+                                  options: MatchingOptions): IterableIterator<PatternMatch & T> {
+    const stateManager = new InputStateManager(streamInRange(input, options), undefined,
+        memoFor(options), budgetFor(options), positionsFor(options), options.tracer);
+    const consumeWhiteSpace = (matcher as any).$consumeWhiteSpaceBetweenTokens === true;
+    const first = firstCharactersOf(matcher);
+    const mode = options.matchMode || "non-overlapping";
+
+    let currentInputState: InputState = initialInputState(stateManager, options, l);
+    while (currentInputState) {
+        const step = scan(matcher, currentInputState, consumeWhiteSpace, first, parseContext, mode);
+        if (step.match) {
+            yield step.match as PatternMatch & T;
+        }
+        currentInputState = step.next;
+        if (currentInputState) {
+            stateManager.dropLeft(currentInputState.offset);
+        }
+    }
+}
+
+/**
+ * Try to match at this point, and work out where to continue
+ * @param matcher matcher to use
+ * @param is input state to start from
+ * @param consumeWhiteSpace should we skip whitespace before trying to match
+ * @param first characters a match can start with, if known
+ * @param parseContext context for the whole parsing operation
+ * @param mode how matches may overlap
+ * @param observer matcher observing the input alongside the matcher, which we mustn't skip past
+ * @return {ScanStep}
+ */
+export function scan(matcher: MatchingLogic,
+                     is: InputState,
+                     consumeWhiteSpace: boolean,
+                     first: FirstCharacters,
+                     parseContext: {},
+                     mode: MatchMode,
+                     observer?: MatchingLogic): ScanStep {
+    if (is.exhausted()) {
+        return {};
+    }
+    let currentInputState = is;
+    if (mode !== "all-starts") {
+        currentInputState = readyToMatch(currentInputState, consumeWhiteSpace, matcher, observer).state;
+        if (first) {
+            currentInputState = skipToPossibleStart(currentInputState, consumeWhiteSpace, first).state;
+        }
+    }
+    const tryMatch = invokeMatchPrefix(matcher, currentInputState, {}, parseContext);
+    const match = acceptedMatch(tryMatch);
+    if (match) {
+        return {
+            match,
+            next: (mode === "non-overlapping") ?
+                currentInputState.consume(match.$matched,
+                    `Matching after match on [${match.$matched} from [${match.$matcherId}]`) :
+                currentInputState.advance(),
+            tried: currentInputState,
+            result: tryMatch,
+        };
+    }
+    // We didn't match. Discard the current input character and try again
+    return {
+        next: currentInputState.exhausted() ? undefined : currentInputState.advance(),
+        tried: currentInputState,
+        result: tryMatch,
+    };
+}
+
+/**
+ * Return the match, named after its matcher, if the result is a match we accept when scanning input
+ * @param result result of trying to match
+ * @return {PatternMatch}
+ */
+export function acceptedMatch(result: MatchPrefixResult): PatternMatch {
+    // We can't accept empty matches as genuine at this level:
+    // For example, if the matcher is just a Rep or Alt
+    if (isSuccessfulMatch(result) && result.$matched !== "") {
+        const match = result.match;
+        // Enrich with the name
+        (match as any).$name = match.$matcherId;
+        return match;
+    }
+    return undefined;
+}
@@ -0,0 +1,87 @@
+import { MatchingLogic } from "../Matchers";
+import { MatchingOptions, MemoStats } from "../MatchingOptions";
+import { MatchPrefixResult } from "../MatchPrefixResult";
+
+interface MemoEntry {
+    matcher: MatchingLogic;
+    result: MatchPrefixResult;
+}
+
+/**
+ * Packrat style cache of matchPrefix results for a single matching run,
+ * keyed by matcher identity and offset. Owned by an InputStateManager,
+ * which drops entries to the left of its window as the window slides.
+ */
+export class MatchMemo {
+
+    private entries: { [offset: number]: MemoEntry[] } = {};
+
+    private left = 0;
+
+    private suspensions = 0;
+
+    constructor(public readonly stats: MemoStats = { hits: 0, misses: 0 }) {
+    }
+
+    /**
+     * Return the cached result of the given matcher at this offset,
+     * or undefined if it has not yet been computed
+     */
+    public get(matcher: MatchingLogic, offset: number): MatchPrefixResult {
+        const atOffset = this.entries[offset];
+        if (atOffset) {
+            for (const entry of atOffset) {
+                if (entry.matcher === matcher) {
+                    ++this.stats.hits;
+                    return entry.result;
+                }
+            }
+        }
+        ++this.stats.misses;
+        return undefined;
+    }
+
+    public put(matcher: MatchingLogic, offset: number, result: MatchPrefixResult): void {
+        if (offset < this.left || this.suspensions > 0) {
+            return;
+        }
+        const atOffset = this.entries[offset];
+        if (atOffset) {
+            atOffset.push({ matcher, result });
+        } else {
+            this.entries[offset] = [{ matcher, result }];
+        }
+    }
+
+    /**
+     * Stop caching results until resume is called: for example,
+     * because they depend on a left recursive seed that is still growing
+     */
+    public suspend(): void {
+        ++this.suspensions;
+    }
+
+    public resume(): void {
+        --this.suspensions;
+    }
+
+    /**
+     * Discard results left of the offset: we will never be asked for them again
+     * @param offset leftmost offset we'll need
+     */
+    public dropLeft(offset: number): void {
+        for (let i = this.left; i < offset; i++) {
+            delete this.entries[i];
+        }
+        this.left = Math.max(this.left, offset);
+    }
+}
+
+/**
+ * Return a memo for a run with these options, or undefined if it isn't memoized
+ */
+export function memoFor(options: MatchingOptions): MatchMemo {
+    return options.memoize === true ?
+        new MatchMemo(options.memoStats) :
+        undefined;
+}
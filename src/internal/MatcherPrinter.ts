@@ -1,37 +1,219 @@
+import { FromStringOptions } from "../FromStringOptions";
 import { Matcher, MatchingLogic } from "../Matchers";
-import { Concat, isNamedMatcher, MatchStep } from "../matchers/Concat";
-import { isLiteral } from "../Primitives";
+import { Concat, DEFAULT_BACKTRACK_BUDGET, isMatcher, isNamedMatcher } from "../matchers/Concat";
+import { CBlock } from "../matchers/lang/cfamily/CBlock";
+import { Lookahead } from "../matchers/Lookahead";
+import { Alt, Longest, Opt } from "../Ops";
+import { AbstractRegex, Float, Integer, isLiteral, LowercaseBoolean, regexFlags } from "../Primitives";
+import { Rep, Rep1, Rep1Sep, Repetition, RepSep } from "../Rep";
 import { isBreak } from "./Break";
-import Match = Chai.Match;
+import { completeWithDefaults } from "./CompleteFromStringOptions";
 
 /**
- * Print a matcher structure
- *
- * This is implemented only as far as I needed it; let's see whether
- * we want to use it more before fleshing out the implementation.
+ * A Concat printed as a fromString spec.
+ * Microgrammar.fromString(spec, components, options) gives an equivalent grammar.
  */
+export interface PrintedSpec {
 
-function isMatcher(ml: MatchingLogic | MatchStep): ml is Matcher {
-    return !!((ml as Matcher).name);
-}
-function isConcat(ml: MatchingLogic): ml is Concat {
-    return !!((ml as Concat).matchSteps);
+    /**
+     * Spec, with a reference for each named step and for anything that can't be written literally
+     */
+    spec: string;
+
+    /**
+     * Matchers for the references in the spec that aren't inferred, and any configuration
+     */
+    components: { [name: string]: any };
+
+    /**
+     * Text form of each component, as returned by print
+     */
+    descriptions: { [name: string]: string };
 }
 
+/**
+ * Print a matcher structure as source code that would construct it, such as
+ * `optional(firstOf("a", /[0-9]+/))`. Concats are printed as definitions objects.
+ * Matchers we don't recognize are printed as their $id.
+ * @param ml matcher
+ * @return {string}
+ */
 export function print(ml: MatchingLogic): string {
-    if (isConcat(ml)) {
-        const matcherSteps: Matcher[] =
-            ml.matchSteps.filter(s => isMatcher(s)).map(m => m as Matcher);
-        return matcherSteps.map(s => print(s)).join(" ");
+    return describe(ml, []);
+}
+
+/**
+ * Print a Concat, such as one created by fromString, as a spec and components.
+ * Unbound literal steps are written literally, as are the Breaks fromString infers
+ * for named steps without components, and for ellipses.
+ * Other steps become references to components.
+ * Throws an Error if the Concat contains vetoes or computations, which can't be expressed in a spec.
+ * @param concat Concat to print
+ * @param options fromString options the spec will be parsed with
+ * @return {PrintedSpec}
+ */
+export function printSpec(concat: Concat, options: FromStringOptions = {}): PrintedSpec {
+    const optionsToUse = completeWithDefaults(options);
+    const consumeWhiteSpace = concat.$consumeWhiteSpaceBetweenTokens;
+    const components: { [name: string]: any } = {};
+    const descriptions: { [name: string]: string } = {};
+
+    const steps = concat.matchSteps.map(step => {
+        if (!isMatcher(step)) {
+            throw new Error(`Cannot print step [${step.$id}] of [${concat.$id}] in a spec: It's a function`);
+        }
+        return step as Matcher;
+    });
+    const matchers = steps.map(step => isNamedMatcher(step) ? step.ml : step);
+
+    // Each piece is literal text, an ellipsis or a reference
+    const pieces: Array<{ text: string, reference: boolean }> = [];
+    let anonymousComponents = 0;
+    steps.forEach((step, i) => {
+        const ml = matchers[i];
+        const inferred = isBreak(ml) && !ml.consume && !ml.badMatcher && ml.terminateOn === matchers[i + 1];
+        if (step.name.charAt(0) === "_") {
+            if (inferred && /^_discard\d+$/.test(step.name)) {
+                pieces.push({ text: optionsToUse.ellipsis, reference: false });
+                return;
+            }
+            const literal = literalText(ml, consumeWhiteSpace);
+            if (literal !== undefined && writable(literal, optionsToUse.componentPrefix, optionsToUse.ellipsis)) {
+                if (literal.length > 0) {
+                    pieces.push({ text: literal, reference: false });
+                }
+                return;
+            }
+        }
+        let name = step.name;
+        if (/^_\d+$/.test(name)) {
+            // fromString names anonymous steps like this, so we can't
+            name = `_anonymous${++anonymousComponents}`;
+        }
+        pieces.push({ text: `${optionsToUse.componentPrefix}{${name}}`, reference: true });
+        if (!inferred) {
+            components[name] = ml;
+            descriptions[name] = print(ml);
+        }
+    });
+
+    let spec = "";
+    pieces.forEach((piece, i) => {
+        if (i > 0 && consumeWhiteSpace && !(piece.reference && pieces[i - 1].reference)) {
+            spec += " ";
+        }
+        spec += piece.text;
+    });
+    if (!consumeWhiteSpace) {
+        components.$consumeWhiteSpaceBetweenTokens = false;
+    }
+    // Steps were already wrapped if we skip gaps, so this only needs copying
+    ["$skipGaps", "$backtrack"].filter(key => concat[key]).forEach(key => components[key] = true);
+    if (concat.$backtrackBudget !== DEFAULT_BACKTRACK_BUDGET) {
+        components.$backtrackBudget = concat.$backtrackBudget;
+    }
+    return { spec, components, descriptions };
+}
+
+/**
+ * Return the matcher for the step, without the Break added if the definitions ask to skip gaps
+ */
+function unwrap(step: Matcher, concat: Concat): MatchingLogic {
+    const ml = isNamedMatcher(step) ? step.ml : step;
+    return (concat.definitions.$skipGaps === true && isBreak(ml)) ? ml.terminateOn : ml;
+}
+
+/**
+ * Return the text matched by a literal, or by a Concat of unbound literals as fromString
+ * creates from text containing whitespace. Undefined if it's not a literal.
+ */
+function literalText(ml: MatchingLogic, consumeWhiteSpace: boolean): string {
+    if (isLiteral(ml)) {
+        // Whitespace within a literal would separate tokens
+        return (consumeWhiteSpace && /\s/.test(ml.literal)) ? undefined : ml.literal;
+    }
+    if (ml instanceof Concat && consumeWhiteSpace && ml.$consumeWhiteSpaceBetweenTokens && ml.matchSteps.length > 0) {
+        const tokens = ml.matchSteps.map(step => {
+            const inner = isNamedMatcher(step as MatchingLogic) ? (step as Matcher & { ml: MatchingLogic }).ml : undefined;
+            return (step.$id.charAt(0) === "_" && inner) ? literalText(inner, true) : undefined;
+        });
+        return tokens.every(token => token !== undefined && token.length > 0) ? tokens.join(" ") : undefined;
+    }
+    return undefined;
+}
+
+/**
+ * Can we write this text in a spec without it being taken for a reference or an ellipsis?
+ */
+function writable(text: string, componentPrefix: string, ellipsis: string): boolean {
+    return text.indexOf(componentPrefix + "{") === -1 && text.indexOf(ellipsis) === -1;
+}
+
+function describe(ml: MatchingLogic, printing: MatchingLogic[]): string {
+    if (printing.indexOf(ml) !== -1) {
+        // Recursive reference
+        return ml.$id;
+    }
+    const within = printing.concat([ml]);
+    const d = (m: MatchingLogic) => describe(m, within);
+    if (isNamedMatcher(ml)) {
+        return d(ml.ml);
     } else if (isLiteral(ml)) {
-        return ml.literal;
-    } else if (isNamedMatcher(ml)) {
-        return print(ml.ml);
+        return JSON.stringify(ml.literal);
+    } else if (ml === Integer) {
+        return "Integer";
+    } else if (ml === Float) {
+        return "Float";
+    } else if (ml === LowercaseBoolean) {
+        return "LowercaseBoolean";
+    } else if (ml instanceof AbstractRegex) {
+        return `/${ml.regex.source.replace(/^\^/, "")}/${regexFlags(ml.regex)}`;
+    } else if (ml instanceof Concat) {
+        const members = Object.keys(ml.definitions)
+            .filter(key => key !== "$id" || ml.definitions.$id.charAt(0) !== "$")
+            .map(key => {
+                const def = ml.definitions[key];
+                const step = ml.matchSteps.filter(s => s.$id === key)[0];
+                const value = (step && isMatcher(step)) ? d(unwrap(step, ml)) :
+                    typeof def === "function" ? def.toString() : JSON.stringify(def);
+                return `${/^[$_a-zA-Z][$_a-zA-Z0-9]*$/.test(key) ? key : JSON.stringify(key)}: ${value}`;
+            });
+        return `{ ${members.join(", ")} }`;
+    } else if (ml instanceof Alt) {
+        return `firstOf(${ml.matchers.map(d).join(", ")})`;
+    } else if (ml instanceof Longest) {
+        return `longestOf(${ml.matchers.map(d).join(", ")})`;
+    } else if (ml instanceof Opt) {
+        return `optional(${d(ml.matcher)})`;
+    } else if (ml instanceof Repetition) {
+        return describeRepetition(ml, d);
     } else if (isBreak(ml)) {
-        return("...(" + print(ml.terminateOn) + ")");
-    } else if (isMatcher(ml)) {
-        return `Matcher:${ml.name}`;
-    } else {
-        return "???";
+        return ml.badMatcher ?
+            `yadaYadaThenThisButNotThat(${d(ml.terminateOn)}, ${d(ml.badMatcher)})` :
+            `${ml.consume ? "skipTo" : "takeUntil"}(${d(ml.terminateOn)})`;
+    } else if (ml instanceof Lookahead) {
+        return `${ml.positive ? "lookahead" : "notFollowedBy"}(${d(ml.matcher)})`;
+    } else if (ml instanceof CBlock) {
+        return ml.inner ? `blockContaining(${d(ml.inner)})` : ml.$id;
+    }
+    return ml.$id;
+}
+
+function describeRepetition(rep: Repetition, d: (m: MatchingLogic) => string): string {
+    const item = d(rep.matcher);
+    const sep = rep.sepMatcher ? d(rep.sepMatcher) : undefined;
+    const lazy = rep.greedy ? "" : ".nonGreedy()";
+    if (rep.max === Infinity && rep.greedy) {
+        if (rep instanceof Rep1Sep || (sep && rep.min === 1)) {
+            return `new Rep1Sep(${item}, ${sep})`;
+        } else if (rep instanceof RepSep || (sep && rep.min === 0)) {
+            return `new RepSep(${item}, ${sep})`;
+        } else if (rep instanceof Rep1 || (!sep && rep.min === 1)) {
+            return `new Rep1(${item})`;
+        } else if (rep instanceof Rep || (!sep && rep.min === 0)) {
+            return `new Rep(${item})`;
+        }
     }
+    const max = rep.max === Infinity ? "Infinity" : String(rep.max);
+    return `new Repetition(${item}, ${rep.min}, ${sep ? sep : "undefined"}, ${max})${lazy}`;
 }
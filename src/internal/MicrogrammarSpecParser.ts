@@ -3,6 +3,7 @@ import { Concat, toMatchingLogic } from "../matchers/Concat";
 import { Literal } from "../Primitives";
 
 import { WhiteSpaceHandler } from "../Config";
+import { formatDismatch } from "../DismatchFormatter";
 import { FromStringOptions } from "../FromStringOptions";
 import { isPatternMatch } from "../PatternMatch";
 import { Break } from "./Break";
@@ -33,7 +34,7 @@ export class MicrogrammarSpecParser {
         spec = this.preprocess(spec, optionsToUse);
         const match = exactMatch<MicrogrammarSpec>(specGrammar(optionsToUse), spec);
         if (!isPatternMatch(match)) {
-            throw new Error(`Unable to parse microgrammar: ${spec}`);
+            throw new Error(`Unable to parse microgrammar: ${spec}\n${formatDismatch(match, spec)}`);
         }
         const matcherSequence1 = this.definitionSpecsFromMicrogrammarSpec(match,
             (components as WhiteSpaceHandler).$consumeWhiteSpaceBetweenTokens !== false);
@@ -0,0 +1,124 @@
+/**
+ * Aho-Corasick automaton finding the first occurrence of any of a set of strings
+ * in a single pass over the input
+ */
+export class PrefixSearch {
+
+    private transitions: Array<{ [char: string]: number }> = [{}];
+
+    private failures: number[] = [0];
+
+    /**
+     * Length of the longest string recognized on reaching each state, or 0
+     */
+    private longest: number[] = [0];
+
+    private maxLength = 0;
+
+    /**
+     * Create a search for any of these strings
+     * @param strings strings to search for. Must not be empty
+     */
+    constructor(public readonly strings: string[]) {
+        for (const s of strings) {
+            this.add(s);
+        }
+        this.computeFailures();
+    }
+
+    /**
+     * Find the offset of the leftmost occurrence of any of our strings
+     * @param charAt function returning the character at an offset, or the empty string if input is exhausted
+     * @param from offset to search from
+     * @return {number} offset of the first occurrence, or -1 if there is none
+     */
+    public find(charAt: (offset: number) => string, from: number): number {
+        let state = 0;
+        let best = -1;
+        for (let offset = from; best === -1 || offset < best + this.maxLength; offset++) {
+            const char = charAt(offset);
+            if (char === "") {
+                return best;
+            }
+            while (state !== 0 && !this.transitions[state].hasOwnProperty(char)) {
+                state = this.failures[state];
+            }
+            state = this.transitions[state].hasOwnProperty(char) ? this.transitions[state][char] : 0;
+            if (this.longest[state] > 0) {
+                // A longer string ending here starts earlier
+                const start = offset - this.longest[state] + 1;
+                if (best === -1 || start < best) {
+                    best = start;
+                }
+            }
+        }
+        return best;
+    }
+
+    private add(s: string) {
+        if (s.length === 0) {
+            throw new Error("Cannot search for the empty string");
+        }
+        let state = 0;
+        for (const char of s.split("")) {
+            if (!this.transitions[state].hasOwnProperty(char)) {
+                this.transitions.push({});
+                this.failures.push(0);
+                this.longest.push(0);
+                this.transitions[state][char] = this.transitions.length - 1;
+            }
+            state = this.transitions[state][char];
+        }
+        this.longest[state] = s.length;
+        this.maxLength = Math.max(this.maxLength, s.length);
+    }
+
+    /**
+     * Compute failure links breadth first, so that each state's
+     * failure state is already complete when we reach it
+     */
+    private computeFailures() {
+        const queue = Object.keys(this.transitions[0]).map(char => this.transitions[0][char]);
+        while (queue.length > 0) {
+            const state = queue.shift();
+            for (const char of Object.keys(this.transitions[state])) {
+                const next = this.transitions[state][char];
+                let failure = this.failures[state];
+                while (failure !== 0 && !this.transitions[failure].hasOwnProperty(char)) {
+                    failure = this.failures[failure];
+                }
+                this.failures[next] = this.transitions[failure].hasOwnProperty(char) ?
+                    this.transitions[failure][char] :
+                    0;
+                this.longest[next] = Math.max(this.longest[next], this.longest[this.failures[next]]);
+                queue.push(next);
+            }
+        }
+    }
+}
+
+const MAX_CACHED_SEARCHES = 100;
+
+let searches: { [key: string]: PrefixSearch } = {};
+
+let cachedSearches = 0;
+
+/**
+ * Return a search for these strings. Searches are cached, as scanning
+ * loops ask for the same search repeatedly.
+ * @param strings strings to search for
+ */
+export function prefixSearchFor(strings: string[]): PrefixSearch {
+    const key = strings.join("\u0000");
+    let search = searches.hasOwnProperty(key) ? searches[key] : undefined;
+    if (!search) {
+        if (cachedSearches >= MAX_CACHED_SEARCHES) {
+            searches = {};
+            cachedSearches = 0;
+        }
+        search = new PrefixSearch(strings);
+        searches[key] = search;
+        ++cachedSearches;
+    }
+    return search;
+}
@@ -0,0 +1,227 @@
+/**
+ * Layout of railroad diagrams as SVG.
+ * Every component has a track running through it at height 0, entering at the left and leaving at the right,
+ * and extends up above the track and down below it.
+ */
+export interface Railroad {
+
+    readonly width: number;
+
+    readonly up: number;
+
+    readonly down: number;
+
+    /**
+     * Return SVG elements drawing this with the track entering at (x, y)
+     */
+    draw(x: number, y: number): string[];
+}
+
+/**
+ * Radius of curves, and the unit of spacing
+ */
+const R = 10;
+
+const CHARACTER_WIDTH = 8;
+
+const SMALL_CHARACTER_WIDTH = 7;
+
+const BOX_HALF_HEIGHT = 11;
+
+const LABEL_HEIGHT = 14;
+
+/**
+ * Box containing text: rounded for a terminal, square for anything else
+ */
+export function box(text: string, terminal: boolean): Railroad {
+    const width = text.length * CHARACTER_WIDTH + 2 * R;
+    return {
+        width,
+        up: BOX_HALF_HEIGHT,
+        down: BOX_HALF_HEIGHT,
+        draw: (x, y) => [
+            `<rect x="${x}" y="${y - BOX_HALF_HEIGHT}" width="${width}" height="${2 * BOX_HALF_HEIGHT}" ` +
+            `rx="${terminal ? R : 0}" class="${terminal ? "terminal" : "nonterminal"}"/>`,
+            `<text x="${x + width / 2}" y="${y + 4}" text-anchor="middle">${escapeXml(text)}</text>`,
+        ],
+    };
+}
+
+/**
+ * Text written above the track
+ */
+export function comment(text: string): Railroad {
+    const width = text.length * SMALL_CHARACTER_WIDTH + 2 * R;
+    return {
+        width,
+        up: LABEL_HEIGHT,
+        down: 0,
+        draw: (x, y) => [
+            line(x, y, width),
+            `<text x="${x + width / 2}" y="${y - 4}" text-anchor="middle" class="comment">${escapeXml(text)}</text>`,
+        ],
+    };
+}
+
+/**
+ * Nothing: the track passes straight through
+ */
+export function skip(): Railroad {
+    return { width: 0, up: 0, down: 0, draw: () => [] };
+}
+
+export function sequence(items: Railroad[]): Railroad {
+    if (items.length === 0) {
+        return skip();
+    }
+    return {
+        width: items.reduce((sum, item) => sum + item.width, 0) + R * (items.length - 1),
+        up: Math.max(...items.map(item => item.up)),
+        down: Math.max(...items.map(item => item.down)),
+        draw: (x, y) => {
+            const elements: string[] = [];
+            items.forEach((item, i) => {
+                if (i > 0) {
+                    elements.push(line(x, y, R));
+                    x += R;
+                }
+                elements.push(...item.draw(x, y));
+                x += item.width;
+            });
+            return elements;
+        },
+    };
+}
+
+/**
+ * Item with a label, such as a step name, above it
+ */
+export function labelled(label: string, item: Railroad): Railroad {
+    const width = Math.max(item.width, label.length * SMALL_CHARACTER_WIDTH);
+    const indent = (width - item.width) / 2;
+    return {
+        width,
+        up: item.up + LABEL_HEIGHT,
+        down: item.down,
+        draw: (x, y) => [
+            line(x, y, indent),
+            ...item.draw(x + indent, y),
+            line(x + indent + item.width, y, indent),
+            `<text x="${x + width / 2}" y="${y - item.up - 4}" text-anchor="middle" class="label">${escapeXml(label)}</text>`,
+        ],
+    };
+}
+
+/**
+ * Alternatives stacked vertically, the first on the track
+ */
+export function choice(items: Railroad[]): Railroad {
+    const inner = Math.max(...items.map(item => item.width));
+    const width = inner + 4 * R;
+    const offsets = [0];
+    for (let i = 1; i < items.length; i++) {
+        offsets.push(Math.max(offsets[i - 1] + items[i - 1].down + R + items[i].up, offsets[i - 1] + 2 * R));
+    }
+    const last = items.length - 1;
+    return {
+        width,
+        up: items[0].up,
+        down: offsets[last] + items[last].down,
+        draw: (x, y) => {
+            const elements: string[] = [];
+            items.forEach((item, i) => {
+                const dy = offsets[i];
+                if (i === 0) {
+                    elements.push(line(x, y, 2 * R));
+                } else {
+                    elements.push(path(`M${x} ${y}a${R} ${R} 0 0 1 ${R} ${R}v${dy - 2 * R}a${R} ${R} 0 0 0 ${R} ${R}`));
+                }
+                elements.push(...item.draw(x + 2 * R, y + dy));
+                const end = x + 2 * R + item.width;
+                if (i === 0) {
+                    elements.push(line(end, y, x + width - end));
+                } else {
+                    elements.push(path(`M${end} ${y + dy}H${x + width - 2 * R}` +
+                        `a${R} ${R} 0 0 0 ${R} ${-R}v${-(dy - 2 * R)}a${R} ${R} 0 0 1 ${R} ${-R}`));
+                }
+            });
+            return elements;
+        },
+    };
+}
+
+export function optional(item: Railroad): Railroad {
+    return choice([skip(), item]);
+}
+
+/**
+ * Item repeated one or more times, with a separator, if any, and a note, if any, on the way back
+ */
+export function oneOrMore(item: Railroad, separator: Railroad = skip(), note?: string): Railroad {
+    const inner = Math.max(item.width, separator.width);
+    const width = inner + 4 * R;
+    const dy = Math.max(2 * R, item.down + R + separator.up);
+    const noteHeight = note ? LABEL_HEIGHT : 0;
+    return {
+        width,
+        up: item.up,
+        down: dy + separator.down + noteHeight,
+        draw: (x, y) => {
+            const elements = [line(x, y, 2 * R)];
+            elements.push(...item.draw(x + 2 * R, y));
+            elements.push(line(x + 2 * R + item.width, y, width - 2 * R - item.width));
+            // Back from the end to the start
+            const right = x + width - 2 * R;
+            const left = x + 2 * R;
+            elements.push(path(`M${right} ${y}a${R} ${R} 0 0 1 ${R} ${R}v${dy - 2 * R}a${R} ${R} 0 0 1 ${-R} ${R}` +
+                `H${left + separator.width}`));
+            elements.push(...separator.draw(left, y + dy));
+            elements.push(path(`M${left} ${y + dy}a${R} ${R} 0 0 1 ${-R} ${-R}v${-(dy - 2 * R)}a${R} ${R} 0 0 1 ${R} ${-R}`));
+            if (note) {
+                elements.push(`<text x="${x + width / 2}" y="${y + dy + separator.down + 12}" text-anchor="middle" ` +
+                    `class="comment">${escapeXml(note)}</text>`);
+            }
+            return elements;
+        },
+    };
+}
+
+/**
+ * Return a self-contained SVG document showing the diagram between start and end markers
+ */
+export function toSvg(diagram: Railroad): string {
+    const padding = 2 * R;
+    const width = diagram.width + 2 * padding + 2 * R;
+    const height = diagram.up + diagram.down + 2 * padding;
+    const y = padding + diagram.up;
+    const end = padding + R + diagram.width;
+    return [
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" ` +
+        `class="railroad-diagram">`,
+        "<style>",
+        "path { fill: none; stroke: #333; stroke-width: 2; }",
+        "rect { fill: #f4f4ff; stroke: #333; stroke-width: 2; }",
+        "text { font: 12px monospace; fill: #000; }",
+        "text.comment, text.label { font: italic 11px sans-serif; fill: #555; }",
+        "</style>",
+        path(`M${padding} ${y - R}v${2 * R}M${padding} ${y}h${R}`),
+        ...diagram.draw(padding + R, y),
+        path(`M${end} ${y}h${R}M${end + R} ${y - R}v${2 * R}`),
+        "</svg>",
+    ].join("\n");
+}
+
+function line(x: number, y: number, length: number): string {
+    return path(`M${x} ${y}h${length}`);
+}
+
+function path(d: string): string {
+    return `<path d="${d}"/>`;
+}
+
+function escapeXml(s: string): string {
+    return s.replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;");
+}
@@ -0,0 +1,54 @@
+import { MatchingLogic } from "../Matchers";
+
+/**
+ * Matchers whose required prefixes we're computing. Grammars may be recursive.
+ */
+const computing: MatchingLogic[] = [];
+
+/**
+ * Return the prefixes one of which any match of this matcher must begin with,
+ * or undefined if we don't know
+ * @param ml matcher
+ * @return {string[]}
+ */
+export function requiredPrefixesOf(ml: MatchingLogic): string[] {
+    if (!ml || computing.indexOf(ml) !== -1) {
+        // We're going round in circles
+        return undefined;
+    }
+    computing.push(ml);
+    try {
+        const prefixes = ml.requiredPrefixes;
+        if (prefixes) {
+            return prefixes;
+        }
+        return ml.requiredPrefix ? [ml.requiredPrefix] : undefined;
+    } finally {
+        computing.pop();
+    }
+}
+
+/**
+ * Return the prefixes one of which any match of any of these matchers must begin with,
+ * or undefined if we don't know them all
+ * @param matchers matchers
+ * @return {string[]}
+ */
+export function requiredPrefixesOfAny(matchers: MatchingLogic[]): string[] {
+    const all: string[] = [];
+    for (const m of matchers) {
+        const prefixes = requiredPrefixesOf(m);
+        if (!prefixes) {
+            return undefined;
+        }
+        for (const prefix of prefixes) {
+            if (prefix === "") {
+                return undefined;
+            }
+            if (all.indexOf(prefix) === -1) {
+                all.push(prefix);
+            }
+        }
+    }
+    return all;
+}
@@ -0,0 +1,109 @@
+import { MatchingLogic } from "../Matchers";
+import { Concat } from "../matchers/Concat";
+
+/**
+ * Compiles the rules of a textual grammar description
+ */
+export interface RuleCompiler<R> {
+
+    /**
+     * Does the rule describe a sequence, compiling to a Concat?
+     */
+    isSequence(rule: R): boolean;
+
+    /**
+     * Compile the rule, returning Concat definitions for a sequence, or a matcher otherwise.
+     * References to rules should be compiled using RuleResolver.resolve.
+     */
+    compile(rule: R, name: string): any;
+
+    /**
+     * Error to throw when rules refer to each other without a sequence in between,
+     * so can't be resolved
+     * @param names names of the rules, starting with the first referred to
+     */
+    cycle(names: string[]): Error;
+}
+
+/**
+ * Resolves references between named rules.
+ * Sequences are compiled to lazily initialized Concats, which are returned for references before they're compiled,
+ * so rules may be recursive, as long as every cycle includes a sequence.
+ */
+export class RuleResolver<R> {
+
+    // No prototype, so rules can have any name
+    private readonly compiled: { [name: string]: MatchingLogic } = Object.create(null);
+
+    private readonly compiling: string[] = [];
+
+    private readonly uncompiled: Array<{ definitions: any, compile: () => any }> = [];
+
+    private readonly uninitialized: Concat[] = [];
+
+    constructor(private readonly rules: { [name: string]: R },
+                private readonly compiler: RuleCompiler<R>) {
+    }
+
+    public has(name: string): boolean {
+        return Object.prototype.hasOwnProperty.call(this.rules, name);
+    }
+
+    /**
+     * Return the matcher for the rule, which may not yet be compiled or initialized
+     * @param name name of the rule, which must exist
+     * @return {MatchingLogic}
+     */
+    public resolve(name: string): MatchingLogic {
+        if (this.compiled[name]) {
+            return this.compiled[name];
+        }
+        const rule = this.rules[name];
+        if (this.compiler.isSequence(rule)) {
+            this.compiled[name] = this.sequence(() => this.compiler.compile(rule, name), name);
+            return this.compiled[name];
+        }
+        if (this.compiling.indexOf(name) !== -1) {
+            throw this.compiler.cycle(this.compiling.slice(this.compiling.indexOf(name)).concat([name]));
+        }
+        this.compiling.push(name);
+        try {
+            this.compiled[name] = this.compiler.compile(rule, name);
+        } finally {
+            this.compiling.pop();
+        }
+        return this.compiled[name];
+    }
+
+    /**
+     * Return a lazily initialized Concat for a sequence, whether a rule or within one.
+     * Its definitions are compiled later, so that rules within it can refer back to rules we're compiling now:
+     * any cycle of references through a sequence can then be resolved.
+     * @param definitions function returning the definitions of the Concat
+     * @param id $id of the Concat, if any
+     * @return {Concat}
+     */
+    public sequence(definitions: () => any, id?: string): Concat {
+        const placeholder: any = id ? { $id: id, $lazy: true } : { $lazy: true };
+        const concat = Concat.of(placeholder);
+        this.uncompiled.push({ definitions: placeholder, compile: definitions });
+        this.uninitialized.push(concat);
+        return concat;
+    }
+
+    /**
+     * Resolve every rule, then initialize the Concats, so the matchers are ready to use
+     * @return {{[name: string]: MatchingLogic}} matchers by rule name
+     */
+    public resolveAll(): { [name: string]: MatchingLogic } {
+        Object.keys(this.rules).forEach(name => this.resolve(name));
+        while (this.uncompiled.length > 0) {
+            const sequence = this.uncompiled.shift();
+            const compiled = sequence.compile();
+            Object.keys(compiled).forEach(key => sequence.definitions[key] = compiled[key]);
+        }
+        this.uninitialized.forEach(concat => concat._init());
+        this.uninitialized.length = 0;
+        return this.compiled;
+    }
+}
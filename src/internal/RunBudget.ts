@@ -0,0 +1,55 @@
+import { MatchAbortedError } from "../MatchAbortedError";
+import { MatchingLogic } from "../Matchers";
+import { CancellationToken, MatchBudget, MatchingOptions } from "../MatchingOptions";
+
+/**
+ * Enforces the budget and cancellation token of a single matching run.
+ * Owned by an InputStateManager, and charged for each matchPrefix invocation.
+ */
+export class RunBudget {
+
+    private invocations = 0;
+
+    constructor(private readonly budget: MatchBudget = {},
+                private readonly cancellation?: CancellationToken) {
+    }
+
+    /**
+     * Charge for invoking this matcher at this offset.
+     * Throws MatchAbortedError if the run should stop.
+     */
+    public charge(matcher: MatchingLogic, offset: number): void {
+        if (this.cancellation && this.cancellation.cancelled) {
+            throw new MatchAbortedError("cancelled", offset, matcher);
+        }
+        if (this.budget.maxInvocations !== undefined && ++this.invocations > this.budget.maxInvocations) {
+            throw new MatchAbortedError("invocations", offset, matcher);
+        }
+        if (this.budget.deadline !== undefined && Date.now() > this.budget.deadline) {
+            throw new MatchAbortedError("deadline", offset, matcher);
+        }
+    }
+
+    /**
+     * Number of invocations charged so far
+     */
+    get charged(): number {
+        return this.invocations;
+    }
+
+    /**
+     * Forget invocations charged since we'd charged this many, as when they were abandoned to be retried
+     */
+    public refund(charged: number): void {
+        this.invocations = charged;
+    }
+}
+
+/**
+ * Return a budget for a run with these options, or undefined if it's unlimited
+ */
+export function budgetFor(options: MatchingOptions): RunBudget {
+    return (options.budget || options.cancellation) ?
+        new RunBudget(options.budget, options.cancellation) :
+        undefined;
+}
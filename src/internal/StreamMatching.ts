@@ -0,0 +1,155 @@
+import { InputState } from "../InputState";
+import { MatchingLogic } from "../Matchers";
+import { MatchingOptions } from "../MatchingOptions";
+import { PatternMatch } from "../PatternMatch";
+import { AsyncInputStream } from "../spi/AsyncInputStream";
+import { InputStream } from "../spi/InputStream";
+import { firstCharactersOf } from "./FirstCharacters";
+import { initialInputState, streamInRange } from "./InputRange";
+import { InputStateManager } from "./InputStateManager";
+import { positionsFor } from "./LinePositions";
+import { scan, ScanStep } from "./MatchIteration";
+import { memoFor } from "./MatchMemo";
+import { budgetFor } from "./RunBudget";
+
+/**
+ * Thrown through matchers to abandon an attempt that needs input we don't have yet
+ */
+const NEED_MORE_INPUT = { description: "Need more input" };
+
+/**
+ * Characters to ask for at a time
+ */
+const CHUNK_SIZE = 16 * 1024;
+
+/**
+ * Characters we've read, beyond which we compact our buffer
+ */
+const COMPACT_AFTER = 64 * 1024;
+
+/**
+ * Synchronous InputStream over what we've read from an AsyncInputStream.
+ * Reads that we can't satisfy until more input arrives abandon the current attempt to match.
+ */
+class PrefetchingInputStream implements InputStream {
+
+    private buffered = "";
+
+    private position = 0;
+
+    private ended = false;
+
+    private readCount = 0;
+
+    private wantedCount = 0;
+
+    constructor(private readonly source: AsyncInputStream) {
+    }
+
+    public exhausted() {
+        if (this.position < this.buffered.length) {
+            return false;
+        }
+        if (!this.ended) {
+            this.wantedCount = this.readCount + 1;
+            throw NEED_MORE_INPUT;
+        }
+        return true;
+    }
+
+    public read(n: number): string {
+        if (!this.ended && this.buffered.length - this.position < n) {
+            this.wantedCount = this.readCount + n;
+            throw NEED_MORE_INPUT;
+        }
+        const s = this.buffered.substr(this.position, n);
+        this.position += s.length;
+        this.readCount += s.length;
+        if (this.position > COMPACT_AFTER) {
+            this.buffered = this.buffered.substr(this.position);
+            this.position = 0;
+        }
+        return s;
+    }
+
+    /**
+     * Number of characters read so far
+     */
+    get charactersRead(): number {
+        return this.readCount;
+    }
+
+    /**
+     * Number of characters the last read we couldn't satisfy wanted to have read
+     */
+    get charactersWanted(): number {
+        return this.wantedCount;
+    }
+
+    /**
+     * Wait for more input: until we have this many characters in all, unless the input ends first
+     */
+    public async fill(characters: number): Promise<void> {
+        do {
+            const chunk = await this.source.read(CHUNK_SIZE);
+            if (chunk === "") {
+                this.ended = true;
+            } else {
+                this.buffered += chunk;
+            }
+        } while (!this.ended && this.readCount + this.buffered.length - this.position < characters);
+    }
+}
+
+/**
+ * Find matches in input that arrives over time, yielding each as it is found.
+ * Matching is synchronous: when an attempt to match needs input we haven't read yet,
+ * we abandon it, wait for more input and try again. We wait for as much input again as the attempt wanted,
+ * so an attempt spanning many chunks is retried a logarithmic rather than linear number of times.
+ * Abandoned invocations aren't charged to the budget.
+ * @param matcher matcher to use
+ * @param input input to read
+ * @param parseContext context for the whole parsing operation
+ * @param options options for this matching run
+ */
+export async function* matchStream(matcher: MatchingLogic,
+                                   input: AsyncInputStream,
+                                   parseContext: {},
+                                   options: MatchingOptions): AsyncIterableIterator<PatternMatch> {
+    const prefetched = new PrefetchingInputStream(input);
+    const budget = budgetFor(options);
+    // Ask for only what we need, so we don't wait for input we won't use
+    const stateManager = new InputStateManager(streamInRange(prefetched, options), 1,
+        memoFor(options), budget, positionsFor(options), options.tracer);
+    const consumeWhiteSpace = (matcher as any).$consumeWhiteSpaceBetweenTokens === true;
+    const first = firstCharactersOf(matcher);
+    const mode = options.matchMode || "non-overlapping";
+
+    let currentInputState: InputState = initialInputState(stateManager, options);
+    let readBeforeAttempt = prefetched.charactersRead;
+    while (currentInputState) {
+        const charged = budget ? budget.charged : 0;
+        let step: ScanStep;
+        try {
+            step = scan(matcher, currentInputState, consumeWhiteSpace, first, parseContext, mode);
+        } catch (e) {
+            if (e !== NEED_MORE_INPUT) {
+                throw e;
+            }
+            if (budget) {
+                budget.refund(charged);
+            }
+            // Wait until the attempt can go as far again as it wanted to
+            await prefetched.fill(2 * prefetched.charactersWanted - readBeforeAttempt);
+            continue;
+        }
+        if (step.match) {
+            yield step.match;
+        }
+        currentInputState = step.next;
+        readBeforeAttempt = prefetched.charactersRead;
+        if (currentInputState) {
+            stateManager.dropLeft(currentInputState.offset);
+        }
+    }
+}
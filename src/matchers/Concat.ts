@@ -1,12 +1,26 @@
 import { InputState } from "../InputState";
-import { LazyMatchingLogic, Matcher, MatchingLogic, Term } from "../Matchers";
-import { isSuccessfulMatch, MatchFailureReport, MatchPrefixResult, matchPrefixSuccess } from "../MatchPrefixResult";
+import {
+    Alternatives, BacktrackingMatchingLogic, FirstCharacters, LazyMatchingLogic, Matcher, MatchingLogic, Term,
+} from "../Matchers";
+import {
+    isSuccessfulMatch,
+    MatchFailureReport,
+    MatchPrefixResult,
+    matchPrefixSuccess,
+    SuccessfulMatch,
+    toFailureReport,
+} from "../MatchPrefixResult";
 import { Microgrammar } from "../Microgrammar";
 import { isSpecialMember, PatternMatch, TreePatternMatch } from "../PatternMatch";
 import { Literal, Regex } from "../Primitives";
 
-import { SkipCapable, WhiteSpaceHandler } from "../Config";
+import { BacktrackCapable, SkipCapable, WhiteSpaceHandler } from "../Config";
+import { GrammarLintError, lintGrammar } from "../GrammarLint";
 import { Break } from "../internal/Break";
+import { firstCharactersOf, firstCharactersOfSequence } from "../internal/FirstCharacters";
+import { invokeMatchPrefix } from "../internal/InvokeMatchPrefix";
+import { matchAllowingLeftRecursion } from "../internal/LeftRecursion";
+import { requiredPrefixesOf } from "../internal/RequiredPrefixes";
 import { readyToMatch } from "../internal/Whitespace";
 
 /**
@@ -29,6 +43,22 @@ export type MatchStep = Matcher | MatchVeto | ContextComputation;
 
 const methodsOnEveryMatchingLogic = ["$id", "matchPrefix", "canStartWith", "requiredPrefix"];
 
+/**
+ * Properties only some matchers have. They're steps unless the definitions are themselves a matcher
+ */
+const optionalMatchingLogicMembers = ["requiredPrefixes", "firstCharacters", "requiresBacktracking"];
+
+export const DEFAULT_BACKTRACK_BUDGET = 1000;
+
+/**
+ * Is the name that of a method every matcher has? Such names are ignored as steps in Concat definitions.
+ * @param name candidate step name
+ * @return {boolean}
+ */
+export function isMatchingLogicMember(name: string): boolean {
+    return methodsOnEveryMatchingLogic.indexOf(name) !== -1;
+}
+
 /**
  * Represents a concatenation of multiple matchers. This is the normal
  * way we compose matches, although this class needn't be used explicitly,
@@ -37,12 +67,13 @@ const methodsOnEveryMatchingLogic = ["$id", "matchPrefix", "canStartWith", "requ
  * Users should only create Concats directly in the unusual case where they need
  * to control whitespace handling in a unique way for that particular Concat.
  */
-export class Concat implements LazyMatchingLogic, WhiteSpaceHandler, SkipCapable {
+export class Concat implements LazyMatchingLogic, WhiteSpaceHandler, SkipCapable, BacktrackCapable {
 
     /**
      * Normal way to create a Concat. If a $lazy field
      * is set to true, the Concat will be lazily initialized, and
-     * _init() must be called before use.
+     * _init() must be called before use. Lazily initialized Concats
+     * may be recursive, including left recursive.
      * @param definitions
      * @return {Concat}
      */
@@ -54,12 +85,46 @@ export class Concat implements LazyMatchingLogic, WhiteSpaceHandler, SkipCapable
         return concat;
     }
 
+    /**
+     * Fail fast if the first step of a Concat always leads straight back to it without consuming input:
+     * there is then no alternative that can provide a seed for left recursion.
+     * Static, as instance members would be taken for steps when Concats are composed.
+     */
+    private static checkLeftRecursion(concat: Concat) {
+        const seen: MatchingLogic[] = [];
+        let ml: MatchingLogic = concat.firstMatcher;
+        while (ml && seen.indexOf(ml) === -1) {
+            seen.push(ml);
+            if (ml === concat) {
+                throw new Error(`Left recursive Concat [${concat.$id}] cannot make progress: ` +
+                    `Step [${concat.firstMatcher.name}] always recurses without consuming input. ` +
+                    `Use firstOf to provide a non recursive alternative`);
+            }
+            if (isNamedMatcher(ml)) {
+                ml = ml.ml;
+            } else if (ml instanceof Concat) {
+                ml = ml.firstMatcher;
+            } else {
+                ml = undefined;
+            }
+        }
+    }
+
     public $consumeWhiteSpaceBetweenTokens: boolean = true;
 
     public $skipGaps = false;
 
     public $lazy = false;
 
+    public $backtrack = false;
+
+    /**
+     * Whether to lint the grammar rooted here when initialized, failing with a GrammarLintError if there are problems
+     */
+    public $lint = false;
+
+    public $backtrackBudget = DEFAULT_BACKTRACK_BUDGET;
+
     public readonly matchSteps: MatchStep[] = [];
 
     // Used to check first matcher. We want to do that to check
@@ -75,8 +140,10 @@ export class Concat implements LazyMatchingLogic, WhiteSpaceHandler, SkipCapable
      * function
      */
     public _init() {
+        const definitionsAreMatcher = typeof this.definitions.matchPrefix === "function";
         for (const stepName in this.definitions) {
-            if (methodsOnEveryMatchingLogic.indexOf(stepName) === -1) {
+            if (methodsOnEveryMatchingLogic.indexOf(stepName) === -1 &&
+                !(definitionsAreMatcher && optionalMatchingLogicMembers.indexOf(stepName) !== -1)) {
                 const def = this.definitions[stepName];
                 if (def === undefined || def === null) {
                     throw new Error(`Invalid concatenation: Step [${stepName}] is ${def}`);
@@ -98,6 +165,9 @@ export class Concat implements LazyMatchingLogic, WhiteSpaceHandler, SkipCapable
                 } else {
                     // It's a normal matcher
                     const m = toMatchingLogic(def);
+                    if ((m as BacktrackingMatchingLogic).requiresBacktracking === true) {
+                        this.$backtrack = true;
+                    }
                     // If we are skipping gaps, skip between productions
                     const named = new NamedMatcher(stepName,
                         this.$skipGaps === true ? new Break(m, true) : m);
@@ -106,6 +176,15 @@ export class Concat implements LazyMatchingLogic, WhiteSpaceHandler, SkipCapable
             }
         }
         this.firstMatcher = this.matchSteps.filter(s => isMatcher(s))[0] as Matcher;
+        if (this.$lazy) {
+            Concat.checkLeftRecursion(this);
+        }
+        if (this.$lint) {
+            const warnings = lintGrammar(this);
+            if (warnings.length > 0) {
+                throw new GrammarLintError(warnings);
+            }
+        }
     }
 
     get $id() {
@@ -122,60 +201,167 @@ export class Concat implements LazyMatchingLogic, WhiteSpaceHandler, SkipCapable
         return this.firstMatcher.requiredPrefix;
     }
 
+    get requiredPrefixes(): string[] {
+        return requiredPrefixesOf(this.firstMatcher);
+    }
+
+    get firstCharacters(): FirstCharacters {
+        // We can't know until we're initialized
+        return this.firstMatcher ?
+            firstCharactersOfSequence(this.matchSteps.filter(s => isMatcher(s)) as Matcher[]) :
+            undefined;
+    }
+
     public matchPrefix(initialInputState: InputState, thisMatchContext, parseContext): MatchPrefixResult {
-        const bindingTarget = {};
-        const matches: PatternMatch[] = [];
-        let currentInputState = initialInputState;
-        let matched = "";
-        for (const step of this.matchSteps) {
-            if (isMatcher(step)) {
-                const eat = readyToMatch(currentInputState, this.$consumeWhiteSpaceBetweenTokens);
-                currentInputState = eat.state;
-                matched += eat.skipped;
-
-                const reportResult = step.matchPrefix(currentInputState, thisMatchContext, parseContext);
-                if (isSuccessfulMatch(reportResult)) {
-                    const report = reportResult.match;
-                    matches.push(report);
-                    currentInputState = currentInputState.consume(report.$matched,
-                        `Concat step [${reportResult.$matcherId}] matched ${reportResult.$matched}`);
-                    matched += report.$matched;
-                    if (reportResult.capturedStructure) {
-                        // Bind the nested structure if necessary
-                        bindingTarget[step.$id] = reportResult.capturedStructure;
-                    } else {
-                        // otherwise, save the matcher's value.
-                        bindingTarget[step.$id] = report.$value;
-                    }
+        const matchSteps = this.$backtrack ? matchEachStepWithBacktracking : matchEachStep;
+        // Only a lazily initialized Concat can take part in a cycle
+        return this.$lazy ?
+            matchAllowingLeftRecursion(this, initialInputState,
+                () => matchSteps(this, initialInputState, thisMatchContext, parseContext)) :
+            matchSteps(this, initialInputState, thisMatchContext, parseContext);
+    }
+
+}
+
+/**
+ * Match the steps of the Concat in turn
+ */
+function matchEachStep(concat: Concat, initialInputState: InputState, thisMatchContext, parseContext): MatchPrefixResult {
+    const bindingTarget = {};
+    const matches: PatternMatch[] = [];
+    let currentInputState = initialInputState;
+    let matched = "";
+    for (const step of concat.matchSteps) {
+        if (isMatcher(step)) {
+            const eat = readyToMatch(currentInputState, concat.$consumeWhiteSpaceBetweenTokens);
+            currentInputState = eat.state;
+            matched += eat.skipped;
+
+            const reportResult = step.matchPrefix(currentInputState, thisMatchContext, parseContext);
+            if (isSuccessfulMatch(reportResult)) {
+                const report = reportResult.match;
+                matches.push(report);
+                currentInputState = currentInputState.consume(report.$matched,
+                    `Concat step [${reportResult.$matcherId}] matched ${reportResult.$matched}`);
+                matched += report.$matched;
+                if (reportResult.capturedStructure) {
+                    // Bind the nested structure if necessary
+                    bindingTarget[step.$id] = reportResult.capturedStructure;
                 } else {
-                    return new MatchFailureReport(this.$id, initialInputState.offset, bindingTarget,
-                        `Failed at step '${step.name}' due to ${(reportResult as any).description}`);
+                    // otherwise, save the matcher's value.
+                    bindingTarget[step.$id] = report.$value;
                 }
             } else {
-                // It's a function taking the contexts.
-                // See if we should stop matching.
-                if (isMatchVeto(step)) {
-                    if (step.veto(bindingTarget, thisMatchContext, parseContext) === false) {
-                        return new MatchFailureReport(this.$id, initialInputState.offset, bindingTarget,
-                          `Match vetoed by ${step.$id}`);
-                    }
-                } else {
-                    bindingTarget[step.$id] = step.compute(bindingTarget);
+                return new MatchFailureReport(concat.$id, initialInputState.offset, bindingTarget,
+                    `Failed at step '${step.name}' due to ${(reportResult as any).description}`,
+                    [toFailureReport(reportResult)], undefined, step.name);
+            }
+        } else {
+            // It's a function taking the contexts.
+            // See if we should stop matching.
+            if (isMatchVeto(step)) {
+                if (step.veto(bindingTarget, thisMatchContext, parseContext) === false) {
+                    return new MatchFailureReport(concat.$id, initialInputState.offset, bindingTarget,
+                      `Match vetoed by ${step.$id}`);
                 }
+            } else {
+                bindingTarget[step.$id] = step.compute(bindingTarget);
             }
         }
-        return matchPrefixSuccess(new TreePatternMatch(
-            this.$id,
-            matched,
-            initialInputState.offset,
-            this.matchSteps.filter(m => (m as any).matchPrefix) as Matcher[],
-            matches,
-            bindingTarget), bindingTarget);
     }
+    return matchPrefixSuccess(new TreePatternMatch(
+        concat.$id,
+        matched,
+        initialInputState.offset,
+        concat.matchSteps.filter(m => (m as any).matchPrefix) as Matcher[],
+        matches,
+        bindingTarget), bindingTarget);
+}
+
+/**
+ * Match the steps of the Concat in turn. If a step fails, try
+ * alternative matches of earlier steps, within the Concat's budget.
+ */
+function matchEachStepWithBacktracking(concat: Concat,
+                                       initialInputState: InputState,
+                                       thisMatchContext,
+                                       parseContext): MatchPrefixResult {
+    const matchers = concat.matchSteps.filter(m => isMatcher(m)) as Matcher[];
+    let budget = concat.$backtrackBudget;
+
+    function matchFrom(stepIndex: number,
+                       currentInputState: InputState,
+                       bindingTarget: {},
+                       matches: PatternMatch[],
+                       matched: string): MatchPrefixResult {
+        if (stepIndex === concat.matchSteps.length) {
+            return matchPrefixSuccess(new TreePatternMatch(
+                concat.$id,
+                matched,
+                initialInputState.offset,
+                matchers,
+                matches,
+                bindingTarget), bindingTarget);
+        }
+        const step = concat.matchSteps[stepIndex];
+        if (!isMatcher(step)) {
+            // Copy the binding target, as we may come back this way
+            const target = { ...bindingTarget };
+            if (isMatchVeto(step)) {
+                if (step.veto(target, thisMatchContext, parseContext) === false) {
+                    return new MatchFailureReport(concat.$id, initialInputState.offset, target,
+                        `Match vetoed by ${step.$id}`);
+                }
+            } else {
+                target[step.$id] = step.compute(target);
+            }
+            return matchFrom(stepIndex + 1, currentInputState, target, matches, matched);
+        }
+
+        const eat = readyToMatch(currentInputState, concat.$consumeWhiteSpaceBetweenTokens);
+        const continueWith = (result: SuccessfulMatch) => {
+            const target = { ...bindingTarget };
+            target[step.$id] = result.capturedStructure ? result.capturedStructure : result.match.$value;
+            return matchFrom(stepIndex + 1,
+                eat.state.consume(result.$matched, `Concat step [${result.$matcherId}] matched ${result.$matched}`),
+                target,
+                matches.concat([result.match]),
+                matched + eat.skipped + result.$matched);
+        };
 
+        const reportResult = step.matchPrefix(eat.state, thisMatchContext, parseContext);
+        if (!isSuccessfulMatch(reportResult)) {
+            return new MatchFailureReport(concat.$id, initialInputState.offset, bindingTarget,
+                `Failed at step '${step.name}' due to ${(reportResult as any).description}`,
+                [toFailureReport(reportResult)], undefined, step.name);
+        }
+        let result = continueWith(reportResult);
+        if (isSuccessfulMatch(result) || !isBacktrackingMatchingLogic(step)) {
+            return result;
+        }
+        const alternatives = step.alternatives(eat.state, thisMatchContext, parseContext);
+        for (let alternative = alternatives.next(); !!alternative; alternative = alternatives.next()) {
+            if (budget <= 0) {
+                return new MatchFailureReport(concat.$id, initialInputState.offset, bindingTarget,
+                    `Backtracking budget of ${concat.$backtrackBudget} exhausted at step '${step.name}'`);
+            }
+            --budget;
+            result = continueWith(alternative);
+            if (isSuccessfulMatch(result)) {
+                return result;
+            }
+        }
+        return result;
+    }
+
+    return matchFrom(0, initialInputState, {}, [], "");
+}
+
+export function isBacktrackingMatchingLogic(ml: MatchingLogic): ml is BacktrackingMatchingLogic {
+    return !!(ml as BacktrackingMatchingLogic).alternatives;
 }
 
-function isMatcher(s: MatchStep): s is Matcher {
+export function isMatcher(s: MatchStep): s is Matcher {
     return (s as Matcher).matchPrefix !== undefined;
 }
 
@@ -205,7 +391,7 @@ export function toMatchingLogic(o: TermDef): MatchingLogic {
 /**
  * Give an existing matcher a name
  */
-export class NamedMatcher implements Matcher {
+export class NamedMatcher implements Matcher, BacktrackingMatchingLogic {
 
     public $id = this.name;
 
@@ -213,7 +399,17 @@ export class NamedMatcher implements Matcher {
     }
 
     public matchPrefix(is: InputState, thisMatchContext, parseContext): MatchPrefixResult {
-        return this.ml.matchPrefix(is, thisMatchContext, parseContext) as PatternMatch;
+        return invokeMatchPrefix(this.ml, is, thisMatchContext, parseContext, this.name);
+    }
+
+    get requiresBacktracking(): boolean {
+        return (this.ml as BacktrackingMatchingLogic).requiresBacktracking === true;
+    }
+
+    public alternatives(is: InputState, thisMatchContext, parseContext): Alternatives {
+        return isBacktrackingMatchingLogic(this.ml) ?
+            this.ml.alternatives(is, thisMatchContext, parseContext) :
+            { next: () => undefined };
     }
 
     public canStartWith(char: string): boolean {
@@ -223,6 +419,14 @@ export class NamedMatcher implements Matcher {
     get requiredPrefix(): string {
         return this.ml.requiredPrefix;
     }
+
+    get requiredPrefixes(): string[] {
+        return requiredPrefixesOf(this.ml);
+    }
+
+    get firstCharacters(): FirstCharacters {
+        return firstCharactersOf(this.ml);
+    }
 }
 
 export function isNamedMatcher(thing: MatchingLogic): thing is NamedMatcher {
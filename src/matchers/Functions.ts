@@ -1,4 +1,5 @@
 import { InputState } from "../InputState";
+import { invokeMatchPrefix } from "../internal/InvokeMatchPrefix";
 import { MatchingLogic } from "../Matchers";
 import { isSuccessfulMatch, MatchPrefixResult, matchPrefixSuccess, SuccessfulMatch } from "../MatchPrefixResult";
 import { isTreePatternMatch, TerminalPatternMatch } from "../PatternMatch";
@@ -20,7 +21,7 @@ class FlatteningMatcher implements MatchingLogic {
     }
 
     public matchPrefix(is: InputState, thisMatchContext: {}, parseContext: {}): MatchPrefixResult {
-        const r = this.delegate.matchPrefix(is, thisMatchContext, parseContext);
+        const r = invokeMatchPrefix(this.delegate, is, thisMatchContext, parseContext);
         if (isSuccessfulMatch(r)) {
             if (isTreePatternMatch(r.match)) {
                 const propNames =
@@ -0,0 +1,84 @@
+import { InputState } from "../InputState";
+import { invokeMatchPrefix } from "../internal/InvokeMatchPrefix";
+import { FirstCharacters, MatchingLogic } from "../Matchers";
+import {
+    isSuccessfulMatch,
+    MatchFailureReport,
+    MatchPrefixResult,
+    matchPrefixSuccess,
+    toFailureReport,
+} from "../MatchPrefixResult";
+import { ZeroWidthPatternMatch } from "../PatternMatch";
+import { toMatchingLogic } from "./Concat";
+
+/**
+ * Match if the given matcher matches at this point, without consuming input.
+ * The value of the match is the value the matcher would have matched.
+ * @param o matcher that must follow
+ * @return {Lookahead}
+ */
+export function lookahead(o: any): MatchingLogic {
+    return new Lookahead(o, true);
+}
+
+/**
+ * Match if the given matcher does not match at this point, without consuming input
+ * @param o matcher that must not follow
+ * @return {Lookahead}
+ */
+export function notFollowedBy(o: any): MatchingLogic {
+    return new Lookahead(o, false);
+}
+
+/**
+ * Positive or negative lookahead. Always a zero width match.
+ */
+export class Lookahead implements MatchingLogic {
+
+    public readonly matcher: MatchingLogic;
+
+    /**
+     * Assert what follows
+     * @param o matcher to look for
+     * @param positive whether the matcher must match (true) or must not match (false)
+     */
+    constructor(o: any, public readonly positive: boolean) {
+        this.matcher = toMatchingLogic(o);
+    }
+
+    get $id() {
+        return this.positive ?
+            `Lookahead[${this.matcher.$id}]` :
+            `NotFollowedBy[${this.matcher.$id}]`;
+    }
+
+    public canStartWith(char: string): boolean {
+        return !this.positive || !this.matcher.canStartWith || this.matcher.canStartWith(char);
+    }
+
+    get requiredPrefix(): string {
+        return this.positive ?
+            this.matcher.requiredPrefix :
+            undefined;
+    }
+
+    /**
+     * We consume nothing, so don't constrain what follows
+     */
+    get firstCharacters(): FirstCharacters {
+        return { characters: "", canMatchEmpty: true };
+    }
+
+    public matchPrefix(is: InputState, thisMatchContext, parseContext): MatchPrefixResult {
+        const ahead = invokeMatchPrefix(this.matcher, is, thisMatchContext, parseContext);
+        if (isSuccessfulMatch(ahead) === this.positive) {
+            return matchPrefixSuccess(new ZeroWidthPatternMatch(this.$id, is.offset,
+                isSuccessfulMatch(ahead) ? ahead.$value : undefined));
+        }
+        return this.positive ?
+            new MatchFailureReport(this.$id, is.offset, {},
+                `Expected [${this.matcher.$id}] to follow`, [toFailureReport(ahead)]) :
+            new MatchFailureReport(this.$id, is.offset, {},
+                `Matched [${(ahead as any).$matched}], which must not follow`, [], `not ${this.matcher.$id}`);
+    }
+}
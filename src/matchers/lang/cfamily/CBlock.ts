@@ -1,5 +1,5 @@
 import { InputState } from "../../../InputState";
-import { inputStateFromString } from "../../../internal/InputStateFactory";
+import { inputStateWithin } from "../../../internal/InputStateFactory";
 import { MatchingLogic } from "../../../Matchers";
 import { MatchPrefixResult, matchPrefixSuccess } from "../../../MatchPrefixResult";
 import { TerminalPatternMatch } from "../../../PatternMatch";
@@ -13,14 +13,15 @@ import { CFamilyStateMachine } from "./CFamilyStateMachine";
  */
 export class CBlock implements MatchingLogic {
 
-    public $id: "C.BlockBody";
+    public $id = "C.BlockBody";
 
     private push: string;
 
     private pop: string;
 
     constructor(private stateMachineFactory: () => LangStateMachine,
-                private kind: "block" | "parens", private inner?: MatchingLogic) {
+                public readonly kind: "block" | "parens",
+                public readonly inner?: MatchingLogic) {
         switch (kind) {
             case "block":
                 [this.push, this.pop] = ["{", "}"];
@@ -66,8 +67,8 @@ export class CBlock implements MatchingLogic {
                 matched));
         }
 
-        // We supply the offset to preserve it in this match
-        return this.inner.matchPrefix(inputStateFromString(matched, undefined, is.offset), thisMatchContext, parseContext);
+        // Match within what we found, preserving offsets, lines and columns
+        return this.inner.matchPrefix(inputStateWithin(is, matched), thisMatchContext, parseContext);
     }
 }
 
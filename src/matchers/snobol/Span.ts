@@ -1,5 +1,5 @@
 import { InputState } from "../../InputState";
-import { MatchingLogic } from "../../Matchers";
+import { FirstCharacters, MatchingLogic } from "../../Matchers";
 import { MatchFailureReport, MatchPrefixResult, matchPrefixSuccess } from "../../MatchPrefixResult";
 import { TerminalPatternMatch } from "../../PatternMatch";
 
@@ -17,6 +17,10 @@ export class Span implements MatchingLogic {
         return `Span[${this.characters}]`;
     }
 
+    get firstCharacters(): FirstCharacters {
+        return { characters: this.characters, canMatchEmpty: false };
+    }
+
     public matchPrefix(is: InputState, thisMatchContext, parseContext): MatchPrefixResult {
         let currentIs = is;
         let matched = "";
@@ -25,7 +29,8 @@ export class Span implements MatchingLogic {
             currentIs = currentIs.advance();
         }
         return (currentIs !== is) ?
-           matchPrefixSuccess(new TerminalPatternMatch(this.$id, matched, is.offset, currentIs) ) :
-            new MatchFailureReport(this.$id, is.offset, context);
+           matchPrefixSuccess(new TerminalPatternMatch(this.$id, matched, is.offset, matched)) :
+            new MatchFailureReport(this.$id, is.offset, undefined,
+                `Did not match any of [${this.characters}]: saw [${is.peek(1)}]`, [], `any of [${this.characters}]`);
     }
 }
@@ -0,0 +1,17 @@
+/**
+ * Asynchronous counterpart of InputStream, for input that arrives over time:
+ * for example, from a socket, child process or large file.
+ * Consumption via the read method is irreversible.
+ */
+export interface AsyncInputStream {
+
+    exhausted(): boolean;
+
+    /**
+     * Consume at most n characters, waiting until at least one is available.
+     * Resolve to the empty string if the stream is exhausted.
+     * @param n number of characters to read.
+     */
+    read(n: number): Promise<string>;
+
+}
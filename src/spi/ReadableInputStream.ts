@@ -0,0 +1,97 @@
+import { AsyncInputStream } from "./AsyncInputStream";
+
+/**
+ * The parts of a Node Readable stream we need
+ */
+export interface ReadableLike {
+
+    on(event: string, listener: (...args: any[]) => void): any;
+
+    pause(): any;
+
+    resume(): any;
+
+    setEncoding?(encoding: string): any;
+}
+
+const DEFAULT_HIGH_WATER_MARK = 64 * 1024;
+
+/**
+ * AsyncInputStream over a Node Readable stream.
+ * Applies backpressure, pausing the readable while we hold more unread
+ * characters than the high water mark.
+ */
+export class ReadableInputStream implements AsyncInputStream {
+
+    private buffered = "";
+
+    private ended = false;
+
+    private error: any;
+
+    /**
+     * Read waiting for data, if any
+     */
+    private waiting: () => void;
+
+    /**
+     * Create a stream reading from the readable
+     * @param readable readable to read from. Its content is decoded as UTF-8 if it supports setEncoding
+     * @param highWaterMark number of unread characters at which we pause the readable
+     */
+    constructor(private readonly readable: ReadableLike,
+                private readonly highWaterMark: number = DEFAULT_HIGH_WATER_MARK) {
+        if (readable.setEncoding) {
+            // Don't split multi byte characters across chunks
+            readable.setEncoding("utf8");
+        }
+        readable.on("data", chunk => {
+            this.buffered += chunk.toString();
+            if (this.buffered.length >= this.highWaterMark) {
+                this.readable.pause();
+            }
+            this.wake();
+        });
+        readable.on("end", () => {
+            this.ended = true;
+            this.wake();
+        });
+        readable.on("error", e => {
+            this.error = e;
+            this.wake();
+        });
+    }
+
+    public exhausted() {
+        return this.ended && this.buffered.length === 0;
+    }
+
+    public read(n: number): Promise<string> {
+        return new Promise<string>((resolve, reject) => {
+            const attempt = () => {
+                if (this.error) {
+                    reject(this.error);
+                } else if (this.buffered.length > 0 || this.ended) {
+                    const s = this.buffered.substr(0, n);
+                    this.buffered = this.buffered.substr(s.length);
+                    if (this.buffered.length < this.highWaterMark) {
+                        this.readable.resume();
+                    }
+                    resolve(s);
+                } else {
+                    this.waiting = attempt;
+                    this.readable.resume();
+                }
+            };
+            attempt();
+        });
+    }
+
+    private wake() {
+        const waiting = this.waiting;
+        if (waiting) {
+            this.waiting = undefined;
+            waiting();
+        }
+    }
+}
@@ -6,7 +6,7 @@ import { InputStream } from "./InputStream";
  */
 export class StringInputStream implements InputStream {
 
-    public offset = 0;
+    public offset: number;
 
     /**
      * Create a new string-backed stream
@@ -18,6 +18,7 @@ export class StringInputStream implements InputStream {
         if (content === undefined) {
             throw new Error("Undefined content");
         }
+        this.offset = initialOffset;
     }
 
     public exhausted() {
@@ -5,6 +5,8 @@ import { fail } from "power-assert";
 import { Alt, firstOf } from "../src/Ops";
 
 import { inputStateFromString } from "../src/internal/InputStateFactory";
+import { Concat } from "../src/matchers/Concat";
+import { Microgrammar } from "../src/Microgrammar";
 
 describe("Alt", () => {
 
@@ -94,4 +96,32 @@ describe("firstOf", () => {
         assert.deepEqual(fof, alt);
     });
 
+    it("should expose required prefixes of alternatives", () => {
+        const alt = new Alt("<dependency>", "<plugin>", { _open: "<build", rest: /[^>]*/ });
+        assert.deepEqual(alt.requiredPrefixes, ["<dependency>", "<plugin>", "<build"]);
+    });
+
+    it("should not expose required prefixes if one is unknown", () => {
+        const alt = new Alt("<dependency>", /<[a-z]+>/);
+        assert(alt.requiredPrefixes === undefined);
+    });
+
+    it("should expose required prefixes of recursive alternatives", () => {
+        const nested = { _open: "(", inner: null, _close: ")", $lazy: true };
+        const nestedConcat = Concat.of(nested);
+        const alt = new Alt(nestedConcat, "x");
+        nested.inner = alt;
+        nestedConcat._init();
+        assert.deepEqual(alt.requiredPrefixes, ["(", "x"]);
+        assert.deepEqual(nestedConcat.requiredPrefixes, ["("]);
+    });
+
+    it("should skip to any alternative in a microgrammar", () => {
+        const mg = Microgrammar.fromDefinitions<{ element: string }>({
+            element: firstOf("<dependency>", "<plugin>"),
+        });
+        const matches = mg.findMatches("<project> <plugin> <x> <dependency>");
+        assert.deepEqual(matches.map(m => m.element), ["<plugin>", "<dependency>"]);
+    });
+
 });
@@ -0,0 +1,117 @@
+import "mocha";
+import * as assert from "power-assert";
+
+import { Backtracker } from "../src/Config";
+import { takeUntil } from "../src/matchers/skip/Skip";
+import { Microgrammar } from "../src/Microgrammar";
+import { firstOf, optional } from "../src/Ops";
+import { isPatternMatch } from "../src/PatternMatch";
+import { Rep } from "../src/Rep";
+
+describe("Backtracking", () => {
+
+    it("does not backtrack by default", () => {
+        const mg = Microgrammar.fromDefinitions<{ items: string[] }>({
+            items: new Rep(/[a-z]+/),
+            _last: "end",
+        });
+        assert(!isPatternMatch(mg.exactMatch("a b end")));
+    });
+
+    it("gives back repetitions", () => {
+        const mg = Microgrammar.fromDefinitions<{ items: string[] }>({
+            items: new Rep(/[a-z]+/),
+            _last: "end",
+            $backtrack: true,
+        });
+        const r = mg.exactMatch("a b end");
+        if (isPatternMatch(r)) {
+            assert.deepEqual(r.items, ["a", "b"]);
+        } else {
+            assert.fail("Didn't match");
+        }
+    });
+
+    it("supports Backtracker config", () => {
+        const mg = Microgrammar.fromDefinitions<{ items: string[] }>({
+            ...Backtracker,
+            items: new Rep(/[a-z]+/),
+            _last: "end",
+        });
+        const r = mg.exactMatch("a b c end");
+        if (isPatternMatch(r)) {
+            assert.deepEqual(r.items, ["a", "b", "c"]);
+        } else {
+            assert.fail("Didn't match");
+        }
+    });
+
+    it("tries later alternatives", () => {
+        const mg = Microgrammar.fromDefinitions<{ first: string }>({
+            first: firstOf("a", "ab"),
+            _c: "c",
+            $backtrack: true,
+        });
+        const r = mg.exactMatch("abc");
+        if (isPatternMatch(r)) {
+            assert(r.first === "ab");
+        } else {
+            assert.fail("Didn't match");
+        }
+    });
+
+    it("leaves out optional matches", () => {
+        const mg = Microgrammar.fromDefinitions<{ x: string, y: string }>({
+            x: optional("a"),
+            y: "a",
+            $backtrack: true,
+        });
+        const r = mg.exactMatch("a");
+        if (isPatternMatch(r)) {
+            assert(r.x === undefined);
+            assert(r.y === "a");
+        } else {
+            assert.fail("Didn't match");
+        }
+    });
+
+    it("breaks at later terminals", () => {
+        const mg = Microgrammar.fromDefinitions<{ body: string }>({
+            _start: "(",
+            body: takeUntil(")"),
+            _end: ")",
+            _more: "!",
+            $backtrack: true,
+        });
+        const r = mg.exactMatch("(a) b)!");
+        if (isPatternMatch(r)) {
+            assert(r.body === "a) b");
+        } else {
+            assert.fail("Didn't match");
+        }
+    });
+
+    it("finds matches in junk", () => {
+        const mg = Microgrammar.fromDefinitions<{ items: string[] }>({
+            _open: "<",
+            items: new Rep(/[a-z]+/),
+            _last: "end",
+            _close: ">",
+            $backtrack: true,
+        });
+        const matches = mg.findMatches("x <a end> y <b c end> <d>");
+        assert.deepEqual(matches.map(m => m.items), [["a"], ["b", "c"]]);
+    });
+
+    it("fails when the budget is exhausted", () => {
+        const mg = Microgrammar.fromDefinitions<{ items: string[] }>({
+            items: new Rep(/[a-z]+/),
+            _last: "end",
+            $backtrack: true,
+            $backtrackBudget: 0,
+        });
+        const r = mg.exactMatch("a b end");
+        assert(!isPatternMatch(r));
+    });
+
+});
@@ -0,0 +1,83 @@
+import "mocha";
+import * as assert from "power-assert";
+
+import { formatDismatch } from "../src/DismatchFormatter";
+import { exactMatch } from "../src/internal/ExactMatch";
+import { Concat } from "../src/matchers/Concat";
+import { Microgrammar } from "../src/Microgrammar";
+import { Alt } from "../src/Ops";
+import { DismatchReport, isPatternMatch } from "../src/PatternMatch";
+
+function failureOf(result: any): DismatchReport {
+    assert(!isPatternMatch(result));
+    return result as DismatchReport;
+}
+
+describe("DismatchFormatter", () => {
+
+    const dependency = Concat.of({
+        _open: "<dependency>",
+        groupId: /[a-z.]+/,
+        version: Microgrammar.fromDefinitions({
+            _open: "<version>",
+            number: /[0-9.]+/,
+            _close: new Alt("</version>", "</v>"),
+        }),
+        _close: "</dependency>",
+    });
+
+    const input = "<dependency>\n  com.foo\n  <version>1.0</verzion>\n</dependency>";
+
+    it("shows the failing line with a caret and what was expected", () => {
+        const failure = failureOf(exactMatch(dependency, input));
+        const lines = formatDismatch(failure, input).split("\n");
+        assert(lines[0] === "Expected one of `</version>`, `</v>` at line 3, column 15");
+        assert(lines[1] === "Steps: version > _close");
+        assert.deepEqual(lines.slice(2), [
+            "  1 | <dependency>",
+            "  2 |   com.foo",
+            "> 3 |   <version>1.0</verzion>",
+            "    |               ^",
+            "  4 | </dependency>",
+        ]);
+    });
+
+    it("limits context lines", () => {
+        const failure = failureOf(exactMatch(dependency, input));
+        const lines = formatDismatch(failure, input, { contextLines: 0 }).split("\n");
+        assert.deepEqual(lines.slice(2), [
+            "> 3 |   <version>1.0</verzion>",
+            "    |               ^",
+        ]);
+    });
+
+    it("keeps tabs before the caret", () => {
+        const tabbed = "<dependency>\n\tcom.foo\n\t<version>x";
+        const failure = failureOf(exactMatch(dependency, tabbed));
+        const lines = formatDismatch(failure, tabbed, { contextLines: 0 }).split("\n");
+        assert(lines[0] === "Expected /[0-9.]+/ at line 3, column 11");
+        assert(lines[3] === "    | \t         ^");
+    });
+
+    it("reports left over input", () => {
+        const failure = failureOf(exactMatch(Concat.of({ a: "a" }), "a b"));
+        const lines = formatDismatch(failure, "a b").split("\n");
+        assert(lines[0] === "Expected end of input at line 1, column 3");
+        assert(lines[1] === "> 1 | a b");
+        assert(lines[2] === "    |   ^");
+    });
+
+    it("colors with ANSI escapes", () => {
+        const failure = failureOf(exactMatch(dependency, input));
+        const formatted = formatDismatch(failure, input, { ansi: true });
+        assert(formatted.indexOf("\u001b[1mExpected one of") === 0);
+        assert(formatted.indexOf("\u001b[31m^\u001b[39m") !== -1);
+        assert(formatted.replace(/\u001b\[[0-9]+m/g, "") === formatDismatch(failure, input));
+    });
+
+    it("shows description of other reports", () => {
+        const report = { description: "Didn't like it" };
+        assert(formatDismatch(report, "anything") === "Didn't like it");
+    });
+
+});
@@ -0,0 +1,86 @@
+import "mocha";
+import * as assert from "power-assert";
+
+import { inputStateFromString } from "../src/internal/InputStateFactory";
+import { Concat } from "../src/matchers/Concat";
+import { Span } from "../src/matchers/snobol/Span";
+import { isSuccessfulMatch, MatchFailureReport, MatchPrefixResult } from "../src/MatchPrefixResult";
+import { Microgrammar } from "../src/Microgrammar";
+import { Alt, firstOf } from "../src/Ops";
+import { isPatternMatch } from "../src/PatternMatch";
+import { Literal, Regex } from "../src/Primitives";
+import { Rep1Sep } from "../src/Rep";
+
+function failureOf(result: MatchPrefixResult): MatchFailureReport {
+    assert(!isSuccessfulMatch(result));
+    return result as MatchFailureReport;
+}
+
+describe("Failure reports", () => {
+
+    it("say what literals and regexes expected", () => {
+        const literal = failureOf(new Literal("foo").matchPrefix(inputStateFromString("bar")));
+        assert.deepEqual(literal.expectedAtFurthest, ["`foo`"]);
+        const regex = failureOf(new Regex(/[a-z]+/).matchPrefix(inputStateFromString("123")));
+        assert.deepEqual(regex.expectedAtFurthest, ["/[a-z]+/"]);
+        assert(regex.furthestFailure === "at offset 0 expected /[a-z]+/");
+    });
+
+    it("say what spans expected", () => {
+        const failure = failureOf(Concat.of({ a: "a", b: new Span("xyz") }).matchPrefix(inputStateFromString("a b"), {}, {}));
+        assert.deepEqual(failure.expectedAtFurthest, ["any of [xyz]"]);
+        assert(failure.furthestFailure === "at offset 2 expected any of [xyz]");
+    });
+
+    it("form a tree for Concat", () => {
+        const concat = Concat.of({ a: "a", b: "b", c: "c" });
+        const failure = failureOf(concat.matchPrefix(inputStateFromString("a b d"), {}, {}));
+        assert(failure.$offset === 0);
+        assert(failure.children.length === 1);
+        assert(failure.children[0].$offset === 4);
+        assert(failure.furthestOffset === 4);
+        assert.deepEqual(failure.expectedAtFurthest, ["`c`"]);
+        assert(failure.description.indexOf("Failed at step 'c'") !== -1);
+    });
+
+    it("collect what every alternative expected", () => {
+        const alt = new Alt("x", /[0-9]+/, "y");
+        const failure = failureOf(alt.matchPrefix(inputStateFromString("z"), {}, {}));
+        assert(failure.children.length === 3);
+        assert.deepEqual(failure.expectedAtFurthest, ["`x`", "/[0-9]+/", "`y`"]);
+        assert(failure.furthestFailure === "at offset 0 expected one of `x`, /[0-9]+/, `y`");
+    });
+
+    it("report only the furthest failures", () => {
+        const alt = firstOf({ a: "a", b: "b", c: "c" }, { a: "a", x: "x" });
+        const failure = failureOf(alt.matchPrefix(inputStateFromString("abd"), {}, {}));
+        assert(failure.furthestOffset === 2);
+        assert.deepEqual(failure.expectedAtFurthest, ["`c`"]);
+    });
+
+    it("include what stopped a repetition", () => {
+        const rep = new Rep1Sep(/[0-9]+/, ",");
+        const failure = failureOf(rep.matchPrefix(inputStateFromString("x"), {}, {}));
+        assert.deepEqual(failure.expectedAtFurthest, ["/[0-9]+/"]);
+    });
+
+    it("make exactMatch say what was expected", () => {
+        const version = Microgrammar.fromDefinitions({
+            _open: "<version>",
+            version: /[0-9.]+/,
+            _close: firstOf("</version>", /[a-z]+/),
+        });
+        const result = version.exactMatch("<version>1.0<") as MatchFailureReport;
+        assert(!isPatternMatch(result));
+        assert(result.description.indexOf("at offset 12 expected one of `</version>`, /[a-z]+/") !== -1);
+    });
+
+    it("make exactMatch report left over input", () => {
+        const version = Microgrammar.fromDefinitions({ _open: "<version>", version: /[0-9.]+/ });
+        const result = version.exactMatch("<version>1.0 junk") as MatchFailureReport;
+        assert(!isPatternMatch(result));
+        assert(result.description.indexOf("Left over [junk]") !== -1);
+        assert(result.furthestFailure === "at offset 13 expected end of input");
+    });
+
+});
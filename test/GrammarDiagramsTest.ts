@@ -0,0 +1,115 @@
+import "mocha";
+import * as assert from "power-assert";
+
+import { graphvizDot, railroadSvg } from "../src/GrammarDiagrams";
+import { Concat } from "../src/matchers/Concat";
+import { blockContaining } from "../src/matchers/lang/cfamily/CBlock";
+import { notFollowedBy } from "../src/matchers/Lookahead";
+import { takeUntil } from "../src/matchers/skip/Skip";
+import { Microgrammar } from "../src/Microgrammar";
+import { firstOf, optional } from "../src/Ops";
+import { Integer } from "../src/Primitives";
+import { between, Rep1Sep } from "../src/Rep";
+
+describe("Grammar diagrams", () => {
+
+    const call = Microgrammar.fromDefinitions({
+        name: /[a-z]+/,
+        _lp: "(",
+        args: new Rep1Sep(firstOf(Integer, /"[^"]*"/), ","),
+        _rp: ")",
+        terminator: optional(";"),
+    });
+
+    describe("railroad SVG", () => {
+
+        it("is a self-contained SVG document", () => {
+            const svg = railroadSvg(call);
+            assert(svg.indexOf(`<svg xmlns="http://www.w3.org/2000/svg"`) === 0);
+            assert(svg.indexOf("<style>") !== -1);
+            assert(/<\/svg>$/.test(svg));
+            assert(/width="\d+" height="\d+" viewBox="0 0 \d+ \d+"/.test(svg));
+        });
+
+        it("shows terminals, step names and comments", () => {
+            const svg = railroadSvg(call);
+            assert(svg.indexOf(`rx="10" class="terminal"/>\n<text x="`) !== -1);
+            assert(svg.indexOf(">/[a-z]+/</text>") !== -1);
+            assert(svg.indexOf(">(</text>") !== -1);
+            assert(svg.indexOf(`class="label">args</text>`) !== -1);
+            assert(svg.indexOf(`class="label">_lp</text>`) === -1);
+            assert(svg.indexOf(">/(?:0|[1-9]\\d*)/</text>") !== -1);
+            assert(svg.indexOf(">/&quot;[^&quot;]*&quot;/</text>") !== -1);
+        });
+
+        it("notes bounds of repetitions", () => {
+            const svg = railroadSvg({ digits: between(/[0-9]/, 2, 4) });
+            assert(svg.indexOf(`class="comment">2 to 4 times</text>`) !== -1);
+        });
+
+        it("shows skips, lookaheads and blocks", () => {
+            const svg = railroadSvg({
+                _start: "x",
+                rest: takeUntil("end"),
+                check: notFollowedBy("!"),
+                body: blockContaining(Concat.of({ statement: /[a-z]+/ })),
+            });
+            assert(svg.indexOf(`class="comment">up to</text>`) !== -1);
+            assert(svg.indexOf(`class="comment">not followed by</text>`) !== -1);
+            assert(svg.indexOf(`class="nonterminal"/>\n<text x="`) !== -1);
+            assert(svg.indexOf(">{...}</text>") !== -1);
+            assert(svg.indexOf(`class="label">statement</text>`) !== -1);
+        });
+
+        it("draws recursive grammars as references", () => {
+            const list = {
+                $id: "list",
+                _open: "(",
+                items: null,
+                _close: ")",
+                $lazy: true,
+            };
+            const listConcat = Concat.of(list);
+            list.items = new Rep1Sep(firstOf(listConcat, /[a-z]+/), ",");
+            listConcat._init();
+            const svg = railroadSvg(listConcat);
+            assert(svg.indexOf(`class="nonterminal"/>\n<text x="`) !== -1);
+            assert(svg.indexOf(">list</text>") !== -1);
+        });
+    });
+
+    describe("DOT", () => {
+
+        it("has a node per matcher", () => {
+            const dot = graphvizDot(call);
+            const lines = dot.split("\n");
+            assert(lines[0] === "digraph grammar {");
+            assert(lines[lines.length - 1] === "}");
+            assert(lines.indexOf(`    n0 -> n1 [label="name"];`) !== -1);
+            assert(lines.indexOf(`    n1 [label="/[a-z]+/", shape=box, style=rounded];`) !== -1);
+            assert(lines.indexOf(`    n2 [label="\\"(\\"", shape=box, style=rounded];`) !== -1);
+            assert(lines.some(l => /^    n\d+ \[label="one or more", shape=ellipse\];$/.test(l)));
+            assert(lines.some(l => /^    n\d+ \[label="firstOf", shape=diamond\];$/.test(l)));
+            assert(lines.some(l => /^    n\d+ -> n\d+ \[label="separator"\];$/.test(l)));
+            assert(lines.some(l => /^    n\d+ -> n\d+ \[label="2"\];$/.test(l)));
+        });
+
+        it("shares nodes and has cycles for recursion", () => {
+            const list = {
+                _open: "(",
+                items: null,
+                _close: ")",
+                $lazy: true,
+            };
+            const listConcat = Concat.of(list);
+            list.items = new Rep1Sep(firstOf(listConcat, /[a-z]+/), ",");
+            listConcat._init();
+            const lines = graphvizDot(listConcat).split("\n");
+            const nodes = lines.filter(l => /^    n\d+ \[/.test(l));
+            // Sequence, two literals, repetition, alternatives, regex, separator
+            assert(nodes.length === 7);
+            assert(lines.some(l => /^    n\d+ -> n0 \[label="1"\];$/.test(l)));
+        });
+    });
+
+});
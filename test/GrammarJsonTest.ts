@@ -0,0 +1,221 @@
+import "mocha";
+import * as assert from "power-assert";
+
+import { GrammarJson, GrammarJsonError } from "../src/GrammarJson";
+import { Concat } from "../src/matchers/Concat";
+import { blockContaining } from "../src/matchers/lang/cfamily/CBlock";
+import { notFollowedBy } from "../src/matchers/Lookahead";
+import { yadaYadaThenThisButNotThat } from "../src/matchers/skip/Skip";
+import { Span } from "../src/matchers/snobol/Span";
+import { Microgrammar } from "../src/Microgrammar";
+import { firstOf, optional } from "../src/Ops";
+import { Integer } from "../src/Primitives";
+import { between, Rep1Sep, zeroOrMoreLazy } from "../src/Rep";
+
+describe("Grammar JSON", () => {
+
+    function assertError(json: any, path: string, reason: RegExp) {
+        try {
+            Microgrammar.fromJSON(json);
+            assert.fail("Should have failed");
+        } catch (e) {
+            assert(e instanceof GrammarJsonError);
+            assert(e.path === path, e.message);
+            assert(reason.test(e.reason), e.message);
+        }
+    }
+
+    describe("fromJSON", () => {
+
+        it("loads a simple grammar", () => {
+            const mg = Microgrammar.fromJSON<{ name: string, value: number }>({
+                grammar: {
+                    concat: {
+                        name: { regex: "[a-z]+" },
+                        _eq: "=",
+                        value: { builtIn: "Integer" },
+                    },
+                },
+            });
+            const matches = mg.findMatches("x = 1, yy=22");
+            assert.deepEqual(matches.map(m => [m.name, m.value]), [["x", 1], ["yy", 22]]);
+        });
+
+        it("loads JSON text", () => {
+            const mg = Microgrammar.fromJSON(`{ "grammar": { "concat": { "word": { "regex": "[a-z]+", "flags": "i" } } } }`);
+            assert(mg.firstMatch("123 HeLLo").$matched === "HeLLo");
+        });
+
+        it("loads combinators", () => {
+            const mg = Microgrammar.fromJSON<any>({
+                grammar: {
+                    concat: {
+                        _call: "call",
+                        args: { rep: { firstOf: [{ builtIn: "Integer" }, { span: "abc" }] }, separator: ",", min: 1 },
+                        end: { optional: ";" },
+                        _check: { lookahead: "!", negative: true },
+                        rest: { break: "end", consume: true, unless: "stop" },
+                    },
+                },
+            });
+            const m = mg.firstMatch("call 1, abba, 3; ... end");
+            assert.deepEqual(m.args, [1, "abba", 3]);
+            assert(m.end === ";");
+            assert(m.rest === "end");
+            assert(!mg.firstMatch("call 1; ! end"));
+            assert(!mg.firstMatch("call 1; stop end"));
+        });
+
+        it("loads blocks", () => {
+            const mg = Microgrammar.fromJSON<any>({
+                grammar: {
+                    concat: {
+                        _class: "class",
+                        name: { regex: "[A-Z][a-z]*" },
+                        body: { block: "{}", containing: { concat: { _int: "int", field: { regex: "[a-z]+" } } } },
+                    },
+                },
+            });
+            const m = mg.firstMatch("class Dog { int legs }");
+            assert(m.body.block.field === "legs");
+        });
+
+        it("resolves recursive rules", () => {
+            const mg = Microgrammar.fromJSON<any>({
+                grammar: { ref: "list" },
+                rules: {
+                    list: { concat: { _lp: "(", items: { rep: { ref: "item" }, separator: "," }, _rp: ")" } },
+                    item: { firstOf: [{ ref: "list" }, { regex: "[a-z]+" }] },
+                },
+            });
+            const m = mg.firstMatch("x (a, (b, (c)), d)");
+            assert(m.$matched === "(a, (b, (c)), d)");
+            assert(m.items[1].items[1].items[0] === "c");
+        });
+
+        it("resolves recursion through a concat whatever the order of the rules", () => {
+            const mg = Microgrammar.fromJSON<any>({
+                grammar: { concat: { a: { ref: "A" } } },
+                rules: {
+                    A: { firstOf: [{ ref: "B" }, "x"] },
+                    B: { concat: { _lp: "(", a: { ref: "A" }, _rp: ")" } },
+                },
+            });
+            const m = mg.firstMatch("((x))");
+            assert(m.$matched === "((x))");
+            assert(m.a.a.a === "x");
+        });
+
+        it("resolves recursion through an inline concat", () => {
+            const mg = Microgrammar.fromJSON<any>({
+                grammar: { concat: { a: { ref: "A" } } },
+                rules: {
+                    A: { firstOf: [{ concat: { _o: "(", a: { ref: "A" }, _c: ")" } }, { regex: "[a-z]+" }] },
+                },
+            });
+            const m = mg.firstMatch("((x))");
+            assert(m.$matched === "((x))");
+            assert(m.a.a.a === "x");
+        });
+
+        it("resolves rules named after Object members", () => {
+            const mg = Microgrammar.fromJSON<any>({
+                grammar: { ref: "constructor" },
+                rules: {
+                    constructor: { concat: { a: { ref: "toString" } } },
+                    toString: { concat: { _x: "x" } },
+                },
+            });
+            assert(mg.firstMatch("y x").a.$matched === "x");
+        });
+
+        it("points at problems", () => {
+            assertError("{ grammar", "$", /Invalid JSON/);
+            assertError({}, "$", /grammar is required/);
+            assertError({ grammar: "x", extra: 1 }, "$.extra", /Unexpected property/);
+            assertError({ grammar: "x" }, "$.grammar", /must be a concat/);
+            assertError({ grammar: { concat: { a: { regex: "(" } } } }, "$.grammar.concat.a.regex", /Invalid regex/);
+            assertError({ grammar: { concat: { a: { rep: "x", max: "2" } } } }, "$.grammar.concat.a.max", /Expected a number/);
+            assertError({ grammar: { concat: { a: { rep: "x", min: 3, max: 2 } } } }, "$.grammar.concat.a.max", /no less than min/);
+            assertError({ grammar: { concat: { a: { firstOf: ["x"] } } } }, "$.grammar.concat.a.firstOf", /at least two/);
+            assertError({ grammar: { concat: { a: { firstOf: ["x", 7] } } } }, "$.grammar.concat.a.firstOf[1]",
+                /Expected an object/);
+            assertError({ grammar: { concat: { a: { optional: "x", span: "y" } } } }, "$.grammar.concat.a", /Ambiguous/);
+            assertError({ grammar: { concat: { a: { regex: "x", flag: "i" } } } }, "$.grammar.concat.a.flag",
+                /Unexpected property/);
+            assertError({ grammar: { concat: { "a-b": "x" } } }, `$.grammar.concat["a-b"]`, /Invalid step name/);
+            assertError({ grammar: { concat: {} } }, "$.grammar.concat", /at least one step/);
+            assertError({ grammar: { concat: { a: { ref: "b" } } } }, "$.grammar.concat.a.ref", /No rule named \[b\]/);
+            assertError({ grammar: { concat: { a: { ref: "b" } } }, rules: { b: { optional: { ref: "c" } }, c: { ref: "b" } } },
+                "$.rules.b", /without a concat in between: b -> c -> b/);
+        });
+    });
+
+    describe("toJSON", () => {
+
+        function roundTrip(mg: Microgrammar<any>, input: string): GrammarJson {
+            const json = JSON.parse(JSON.stringify(mg));
+            const loaded = Microgrammar.fromJSON(json);
+            assert.deepEqual(loaded.toJSON(), json);
+            const expected = mg.findMatches(input);
+            const actual = loaded.findMatches(input);
+            assert(expected.length > 0);
+            assert.deepEqual(actual.map(m => m.matchedStructure()), expected.map(m => m.matchedStructure()));
+            return json;
+        }
+
+        it("describes matchers", () => {
+            const json = roundTrip(Microgrammar.fromDefinitions({
+                name: /[a-z]+/i,
+                _lp: "(",
+                args: new Rep1Sep(firstOf(Integer, new Span("xyz")), ","),
+                _rp: ")",
+                terminator: optional(";"),
+                _not: notFollowedBy("!"),
+                pairs: between("ab", 0, 2),
+                lazy: zeroOrMoreLazy("z"),
+                rest: yadaYadaThenThisButNotThat("end", "stop"),
+            }), "Call(1, xy, 2); abab zz end call(3) end");
+            assert.deepEqual((json.grammar as any).concat.name, { regex: "[a-z]+", flags: "i" });
+            assert.deepEqual((json.grammar as any).concat.pairs, { rep: "ab", max: 2 });
+            assert.deepEqual((json.grammar as any).concat.lazy, { rep: "z", lazy: true });
+            assert.deepEqual((json.grammar as any).concat.rest, { break: "end", consume: true, unless: "stop" });
+        });
+
+        it("describes every regex flag", () => {
+            const json = roundTrip(Microgrammar.fromString("${a} ${b}", { a: /^x/u, b: /[a-z]+/im }), "x yy");
+            assert.deepEqual((json.grammar as any).concat.a, { regex: "x", flags: "u" });
+            assert.deepEqual((json.grammar as any).concat.b, { regex: "[a-z]+", flags: "im" });
+        });
+
+        it("describes blocks", () => {
+            roundTrip(Microgrammar.fromDefinitions({
+                _class: "class",
+                name: /[A-Z][a-z]*/,
+                body: blockContaining(Concat.of({ _int: "int", field: /[a-z]+/ })),
+            }), "class Dog { int legs }");
+        });
+
+        it("describes fromString grammars", () => {
+            const json = roundTrip(Microgrammar.fromString("${key}=${value}", { value: Integer }), "a=1 b = 2");
+            assert((json.grammar as any).id === "${key}=${value}");
+        });
+
+        it("describes recursion as rules", () => {
+            const list = { $id: "list", _open: "(", items: null, _close: ")", $lazy: true };
+            const listConcat = Concat.of(list);
+            list.items = new Rep1Sep(firstOf(listConcat, /[a-z]+/), ",");
+            listConcat._init();
+            const json = roundTrip(new Microgrammar(listConcat), "(a, (b, c), d)");
+            assert.deepEqual(json.grammar, { ref: "list" });
+            assert.deepEqual((json.rules.list as any).concat.items,
+                { rep: { firstOf: [{ ref: "list" }, { regex: "[a-z]+" }] }, min: 1, separator: "," });
+        });
+
+        it("refuses computations", () => {
+            const mg = Microgrammar.fromDefinitions({ a: Integer, b: ctx => ctx.a * 2 });
+            assert.throws(() => mg.toJSON(), (e: any) => e instanceof GrammarJsonError && e.path === "$.grammar.concat.b");
+        });
+    });
+
+});
@@ -0,0 +1,127 @@
+import "mocha";
+import * as assert from "power-assert";
+
+import { GrammarLintError, lintGrammar, LintWarning } from "../src/GrammarLint";
+import { Break } from "../src/internal/Break";
+import { Concat } from "../src/matchers/Concat";
+import { lookahead } from "../src/matchers/Lookahead";
+import { takeUntil } from "../src/matchers/skip/Skip";
+import { Microgrammar } from "../src/Microgrammar";
+import { Alt, firstOf, longestOf, optional } from "../src/Ops";
+import { Literal } from "../src/Primitives";
+import { atLeastOne, Rep, Rep1Sep, RepSep } from "../src/Rep";
+
+function rules(warnings: LintWarning[]): string[] {
+    return warnings.map(w => w.rule);
+}
+
+describe("Grammar linting", () => {
+
+    it("finds nothing wrong with a sound grammar", () => {
+        const warnings = lintGrammar({
+            _open: "<",
+            name: /[a-z]+/,
+            attributes: new Rep({ key: /[a-z]+/, _eq: "=", value: /"[^"]*"/ }),
+            rest: takeUntil(">"),
+            alt: longestOf("a", "ab"),
+        });
+        assert.deepEqual(warnings, []);
+    });
+
+    it("finds nullable repetitions", () => {
+        const warnings = lintGrammar({
+            first: /[a-z]+/,
+            items: new Rep({ a: optional("a"), b: new Rep("b") }),
+            ok: atLeastOne(Concat.of({ a: optional("a"), b: "b" })),
+            separated: new RepSep(optional("x"), ","),
+            unseparated: new RepSep(optional("x"), optional(",")),
+        });
+        assert.deepEqual(rules(warnings), ["nullable-rep", "nullable-rep", "nullable-rep"]);
+        assert.deepEqual(warnings.map(w => w.path), ["items", "separated", "unseparated"]);
+        assert(warnings[0].message.indexOf("can match the empty string") !== -1);
+    });
+
+    it("finds shadowed alternatives", () => {
+        const warnings = lintGrammar({
+            keyword: new Alt("for", "foreach", /[0-9]+/, /[0-9]+/),
+            optionalFirst: firstOf(optional("x"), "y"),
+            fine: firstOf("foreach", "for"),
+        });
+        assert.deepEqual(rules(warnings), ["shadowed-alternative", "shadowed-alternative", "shadowed-alternative"]);
+        assert.deepEqual(warnings.map(w => w.path), ["keyword", "keyword", "optionalFirst"]);
+        assert(warnings[0].message === "Alternative 2 [Literal[foreach]] can never be chosen, as [Literal[for]] matches first");
+    });
+
+    it("finds nested Opts", () => {
+        const warnings = lintGrammar({
+            a: optional(optional("a")),
+            b: optional({ c: optional("c"), d: "d" }),
+        });
+        assert.deepEqual(rules(warnings), ["nested-opt"]);
+        assert(warnings[0].path === "a");
+    });
+
+    it("finds Breaks that never skip anything", () => {
+        const warnings = lintGrammar({
+            a: "a",
+            toNothing: takeUntil(optional("x")),
+            toLookahead: new Break(lookahead("y"), true),
+            toSomething: takeUntil("z"),
+        });
+        assert.deepEqual(rules(warnings), ["unterminated-break", "unterminated-break"]);
+        assert.deepEqual(warnings.map(w => w.path), ["toNothing", "toLookahead"]);
+    });
+
+    it("finds definitions that are not steps", () => {
+        const warnings = lintGrammar({
+            a: "a",
+            $b: "b",
+            $c: /c/,
+            canStartWith: "d",
+            $id: "ok",
+            $consumeWhiteSpaceBetweenTokens: false,
+            _veto: (ctx, thisMatchContext, parseContext) => !!parseContext,
+            computed: ctx => ctx.a,
+            notVeto: (ctx, thisMatchContext) => !!thisMatchContext,
+        });
+        assert.deepEqual(rules(warnings),
+            ["reserved-step-name", "reserved-step-name", "reserved-step-name", "reserved-step-name"]);
+        assert(warnings[0].message === "Definition [$b] is taken as configuration, not a step, as its name begins with $");
+        assert(warnings[3].message === "Function [notVeto] is taken as a computation, not a veto, as its name doesn't begin with _");
+    });
+
+    it("reports paths of nested steps", () => {
+        const warnings = lintGrammar(Microgrammar.fromDefinitions({
+            outer: { inner: { items: new Rep(optional("x")) } },
+        }));
+        assert(warnings.length === 1);
+        assert(warnings[0].path === "outer.inner.items");
+        assert(warnings[0].matcherId.indexOf("Rep[") === 0);
+    });
+
+    it("copes with recursion", () => {
+        const list = {
+            _open: "(",
+            items: null,
+            _close: ")",
+            $lazy: true,
+        };
+        const listConcat = Concat.of(list);
+        list.items = new Rep1Sep(firstOf(listConcat, /[a-z]+/), ",");
+        listConcat._init();
+        assert.deepEqual(lintGrammar(listConcat), []);
+    });
+
+    it("runs on initialization if asked", () => {
+        assert(Concat.of({ $lint: true, a: "a", b: new Rep("b") }));
+        try {
+            Concat.of({ $lint: true, a: "a", b: new Rep(new Literal("")) });
+            assert.fail("Should have failed");
+        } catch (e) {
+            assert(e instanceof GrammarLintError);
+            assert.deepEqual(rules(e.warnings), ["nullable-rep"]);
+            assert(e.message.indexOf("Grammar has 1 problem(s):\nb: Item [Literal[]]") === 0);
+        }
+    });
+
+});
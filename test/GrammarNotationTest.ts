@@ -0,0 +1,145 @@
+import "mocha";
+import * as assert from "power-assert";
+
+import { GrammarSyntaxError } from "../src/GrammarNotation";
+import { Microgrammar } from "../src/Microgrammar";
+import { Integer } from "../src/Primitives";
+
+describe("Grammar notation", () => {
+
+    function assertError(grammar: string, line: number, column: number, reason: RegExp) {
+        try {
+            Microgrammar.fromGrammar(grammar);
+            assert.fail(`Should have failed: ${grammar}`);
+        } catch (e) {
+            assert(e instanceof GrammarSyntaxError, e.message);
+            assert(e.line === line && e.column === column, e.message);
+            assert(reason.test(e.reason), e.message);
+        }
+    }
+
+    it("binds rule references and labels, not literals", () => {
+        const mg = Microgrammar.fromGrammar<any>(`
+            assignment = name "=" value:/[0-9]+/ ;
+            name = /[a-z]+/ ;
+        `);
+        const matches = mg.findMatches("x = 1, yy=22");
+        assert.deepEqual(matches.map(m => m.matchedStructure()), [{ name: "x", value: "1" }, { name: "yy", value: "22" }]);
+    });
+
+    it("numbers repeated references", () => {
+        const mg = Microgrammar.fromGrammar<any>(`
+            pair = word "," word
+            word = /[a-z]+/
+        `);
+        assert.deepEqual(mg.firstMatch("a, b").matchedStructure(), { word: "a", word2: "b" });
+    });
+
+    it("supports alternation, repetition and grouping", () => {
+        const mg = Microgrammar.fromGrammar<any>(`
+            call <- name "(" args:(first:arg rest:("," arg)*)? ")" ";"?
+            name <- /[a-z]+/i
+            arg <- Integer | 'text' | "\\"" content:/[^"]*/ "\\""
+        `, { Integer });
+        const m = mg.firstMatch(`Call(1, text, "quoted", 3);`);
+        assert(m.name === "Call");
+        assert(m.args.first === 1);
+        const rest = m.args.rest.map(item => item.arg);
+        assert(rest[0] === "text");
+        assert(rest[1].content === "quoted");
+        assert(rest[2] === 3);
+        assert(mg.firstMatch("call()").args === undefined);
+        assert(mg.findMatches("call(1 2)").length === 0);
+    });
+
+    it("supports one or more and lookahead", () => {
+        const mg = Microgrammar.fromGrammar<any>(`
+            words ::= word+ !"!" ;
+            word ::= /[a-z]+/ ;
+        `);
+        assert.deepEqual(mg.firstMatch("one two; three").word, ["one", "two"]);
+        assert(mg.findMatches("three!").length === 0);
+    });
+
+    it("resolves recursive rules", () => {
+        const mg = Microgrammar.fromGrammar<any>(`
+            # Nested lists
+            list = "(" items:(item more:("," item)*)? ")"
+            item = list | atom   // Either
+            atom = /[a-z]+/
+        `);
+        const m = mg.firstMatch("x (a, (b, (c)), d)");
+        assert(m.$matched === "(a, (b, (c)), d)");
+        assert(m.items.item === "a");
+        assert(m.items.more[0].item.items.item === "b");
+    });
+
+    it("resolves recursion through a sequence in a choice", () => {
+        const mg = Microgrammar.fromGrammar<any>(`
+            value = "(" value ")" | /[a-z]+/ ;
+        `);
+        const m = mg.firstMatch("= ((y))");
+        assert(m.$matched === "((y))");
+        assert(m.value.value.value === "y");
+    });
+
+    it("resolves left recursion", () => {
+        const mg = Microgrammar.fromGrammar<any>(`
+            sum = sum "+" n | n ;
+            n = /[0-9]+/ ;
+        `);
+        const m = mg.firstMatch("1+2+3");
+        assert(m.$matched === "1+2+3");
+        assert(m.sum.n === "3");
+        assert(m.sum.sum.n === "2");
+        assert(m.sum.sum.sum === "1");
+    });
+
+    it("accepts rule names and labels that are Object members", () => {
+        assert.deepEqual(Microgrammar.fromGrammar<any>(`a = "x" hasOwnProperty ; hasOwnProperty = "y"`)
+            .firstMatch("x y").matchedStructure(), { hasOwnProperty: "y" });
+        assert.deepEqual(Microgrammar.fromGrammar<any>(`constructor = "x" y ; y = "y"`)
+            .firstMatch("x y").matchedStructure(), { y: "y" });
+        assert.deepEqual(Microgrammar.fromGrammar<any>(`a = toString:"x" valueOf:"y"`)
+            .firstMatch("x y").matchedStructure(), { toString: "x", valueOf: "y" });
+    });
+
+    it("matches the README example", () => {
+        const mg = Microgrammar.fromGrammar<any>(`
+            # A call, such as f(a, (b, c))
+            call = name "(" args:(first:arg rest:("," arg)*)? ")" ;
+            arg = list | name ;
+            list = "(" arg ("," arg)* ")" ;
+            name = /[a-z]+/i ;
+        `);
+        const m = mg.firstMatch("x = f(a, (b, c));");
+        assert(m.$matched === "f(a, (b, c))");
+        assert(m.args.rest[0].arg.arg === "b");
+    });
+
+    it("starts with the given rule", () => {
+        const mg = Microgrammar.fromGrammar<any>(`
+            list = "[" number+ "]"
+            number = /[0-9]+/
+        `, {}, { start: "number" });
+        assert.deepEqual(mg.findMatches("[1 23]").map(m => m.number), ["1", "23"]);
+    });
+
+    it("points at problems", () => {
+        assertError(``, 1, 1, /Expected a rule/);
+        assertError(`a = "x" |`, 1, 10, /Expected a literal/);
+        assertError(`a = "x"\n  = "y"`, 2, 3, /Expected a literal/);
+        assertError(`a = ("x"`, 1, 9, /Expected \)/);
+        assertError(`a = "x\n"`, 1, 5, /Unterminated literal/);
+        assertError(`a = ""`, 1, 5, /can't be empty/);
+        assertError(`a = /(/`, 1, 5, /Invalid regex/);
+        assertError(`a = "x" @`, 1, 9, /Unexpected character \[@\]/);
+        assertError(`a = b`, 1, 5, /No rule named \[b\]/);
+        assertError(`a = "x"\na = "y"`, 2, 1, /already defined/);
+        assertError(`a = x:"1" x:"2"`, 1, 11, /already used/);
+        assertError(`a = "x" matchPrefix:"y"`, 1, 9, /\[matchPrefix\] is reserved/);
+        assertError(`a = canStartWith\ncanStartWith = "x"`, 2, 1, /\[canStartWith\] is reserved/);
+        assertError(`a = b | "x"\nb = a?`, 1, 1, /without a sequence in between: a -> b -> a/);
+    });
+
+});
@@ -0,0 +1,85 @@
+import "mocha";
+import * as assert from "power-assert";
+
+import { Break } from "../src/internal/Break";
+import { javaBlockContaining } from "../src/matchers/lang/cfamily/java/JavaBody";
+import { Microgrammar } from "../src/Microgrammar";
+import { isPatternMatch, PatternMatch } from "../src/PatternMatch";
+import { Integer, Literal } from "../src/Primitives";
+
+function where(pm: PatternMatch): string {
+    return `${pm.$line}:${pm.$column}-${pm.$endLine}:${pm.$endColumn}`;
+}
+
+describe("Line and column", () => {
+
+    const assignment = Microgrammar.fromDefinitions<{ name: string, value: number }>({
+        name: /[a-z]+/,
+        _eq: "=",
+        value: Integer,
+        _semi: ";",
+    });
+
+    it("locates matches and their submatches", () => {
+        const matches = assignment.findMatches("a = 1;\n  bb =\n 22;\n") as any[];
+        assert.deepEqual(matches.map(where), ["1:1-1:7", "2:3-3:5"]);
+        assert(where(matches[1].$valueMatches.name) === "2:3-2:5");
+        assert(where(matches[1].$valueMatches.value) === "3:2-3:4");
+    });
+
+    it("locates matches in CRLF input", () => {
+        const matches = assignment.findMatches("a = 1;\r\nb = 2;\r\n");
+        assert.deepEqual(matches.map(where), ["1:1-1:7", "2:1-2:7"]);
+    });
+
+    it("honors tab width and carriage return options", () => {
+        const options = { tabWidth: 4, carriageReturnEndsLine: true };
+        const matches = assignment.findMatches("\ta = 1;\r\tb = 2;", {}, undefined, undefined, options);
+        assert.deepEqual(matches.map(where), ["1:5-1:11", "2:5-2:11"]);
+    });
+
+    it("locates matches far into the input", () => {
+        let input = "";
+        for (let i = 0; i < 2000; i++) {
+            input += `v = ${i};\n`;
+        }
+        const matches = assignment.findMatches(input);
+        assert(matches.length === 2000);
+        assert(matches.every((m, i) => m.$line === i + 1 && m.$column === 1));
+    });
+
+    it("locates exact matches", () => {
+        const match = assignment.exactMatch("\n\nx = 1;") as any;
+        assert(isPatternMatch(match));
+        assert(where(match.$valueMatches.name) === "3:1-3:2");
+    });
+
+    it("locates a Break that consumes its terminal from where it begins", () => {
+        const mg = Microgrammar.fromDefinitions<{ b: string }>({ _x: "x", b: new Break(new Literal("end"), true) });
+        const match = mg.firstMatch("x\nfoo\nbar end more") as any;
+        const b = match.$valueMatches.b;
+        assert(b.$matched === "foo\nbar end");
+        assert(b.$offset === 2);
+        assert(where(b) === "2:1-3:8");
+    });
+
+    it("locates matches within a C block", () => {
+        const inner = Microgrammar.fromDefinitions<{ name: string }>({
+            name: /[a-z]+/,
+            _eq: "=",
+            value: Integer,
+            _semi: ";",
+        });
+        const method = Microgrammar.fromDefinitions<{ body: { block: { name: string } } }>({
+            _void: "void",
+            name: /[a-z]+/,
+            _params: "()",
+            body: javaBlockContaining(inner.matcher),
+        });
+        const match = method.firstMatch("class X {\n  void f() {\n    x = 1;\n  }\n}") as any;
+        assert(match.body.block.name === "x");
+        assert(where(match.body.block.$valueMatches.name) === "3:5-3:6");
+        assert(where(match.body.block.$valueMatches.value) === "3:9-3:10");
+    });
+
+});
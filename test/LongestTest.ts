@@ -0,0 +1,96 @@
+import "mocha";
+import * as assert from "power-assert";
+
+import { inputStateFromString } from "../src/internal/InputStateFactory";
+import { isSuccessfulMatch } from "../src/MatchPrefixResult";
+import { Microgrammar } from "../src/Microgrammar";
+import { firstOf, Longest, longestOf } from "../src/Ops";
+import { PatternMatch } from "../src/PatternMatch";
+import { Float, Integer } from "../src/Primitives";
+
+describe("Longest", () => {
+
+    it("should not match when no matcher matches", () => {
+        const longest = new Longest("A", "B");
+        const is = inputStateFromString("friday 14");
+        const m = longest.matchPrefix(is, {}, {});
+        assert(!isSuccessfulMatch(m));
+    });
+
+    it("should pick the longest match regardless of order", () => {
+        const longest = longestOf("A", "AB", "ABC", "X");
+        const is = inputStateFromString("ABCD");
+        const m = longest.matchPrefix(is, {}, {});
+        if (isSuccessfulMatch(m)) {
+            assert(m.$matched === "ABC");
+        } else {
+            assert.fail("Didn't match");
+        }
+    });
+
+    it("should prefer Float to Integer where firstOf does not", () => {
+        const first = Microgrammar.fromDefinitions<{ n: number }>({ n: firstOf(Integer, Float) });
+        const longest = Microgrammar.fromDefinitions<{ n: number }>({ n: longestOf(Integer, Float) });
+        assert(first.firstMatch("3.14").n === 3);
+        assert(longest.firstMatch("3.14").n === 3.14);
+    });
+
+    it("should take first of equal matches by default", () => {
+        const longest = longestOf(/[a-z]+/, /[a-z0-9]+/);
+        const m = longest.matchPrefix(inputStateFromString("abc"), {}, {});
+        if (isSuccessfulMatch(m)) {
+            assert(m.$matcherId === "Regex: ^[a-z]+");
+        } else {
+            assert.fail("Didn't match");
+        }
+    });
+
+    it("should support last tie break", () => {
+        const longest = longestOf(/[a-z]+/, /[a-z0-9]+/).tieBreak("last");
+        const m = longest.matchPrefix(inputStateFromString("abc"), {}, {});
+        if (isSuccessfulMatch(m)) {
+            assert(m.$matcherId === "Regex: ^[a-z0-9]+");
+        } else {
+            assert.fail("Didn't match");
+        }
+    });
+
+    it("should support custom tie break", () => {
+        const longest = longestOf("abc", /[a-z]+/, /.../)
+            .tieBreak(candidates => candidates.filter(c => c.$matcherId === "Regex: ^[a-z]+")[0]);
+        const m = longest.matchPrefix(inputStateFromString("abc"), {}, {});
+        if (isSuccessfulMatch(m)) {
+            assert(m.$matcherId === "Regex: ^[a-z]+");
+        } else {
+            assert.fail("Didn't match");
+        }
+    });
+
+    it("should reject tie break choosing a non candidate", () => {
+        const longest = longestOf("abc", /[a-z]+/).tieBreak(candidates => undefined);
+        assert.throws(() => longest.matchPrefix(inputStateFromString("abc"), {}, {}));
+    });
+
+    it("should report ambiguity with different structure", () => {
+        const reported: PatternMatch[][] = [];
+        const longest = longestOf(
+            { first: /[a-z]/, rest: /[a-z]+/ },
+            { all: /[a-z]+/ })
+            .onAmbiguity((offset, candidates) => reported.push(candidates));
+        const mg = Microgrammar.fromDefinitions<any>({ word: longest });
+        const result = mg.firstMatch("abc");
+        assert(result.word.first === "a");
+        assert(reported.length === 1);
+        assert(reported[0].length === 2);
+    });
+
+    it("should not report ambiguity with the same structure", () => {
+        let reported = 0;
+        const longest = longestOf("abc", /[a-z]+/)
+            .onAmbiguity(() => reported++);
+        const m = longest.matchPrefix(inputStateFromString("abc"), {}, {});
+        assert(isSuccessfulMatch(m));
+        assert(reported === 0);
+    });
+
+});
@@ -0,0 +1,90 @@
+import "mocha";
+import * as assert from "power-assert";
+
+import { MatchAbortedError } from "../src/MatchAbortedError";
+import { yadaYadaThen } from "../src/matchers/skip/Skip";
+import { CancellationToken } from "../src/MatchingOptions";
+import { Microgrammar } from "../src/Microgrammar";
+import { isPatternMatch } from "../src/PatternMatch";
+import { Integer } from "../src/Primitives";
+
+function abortOf(f: () => any): MatchAbortedError {
+    try {
+        f();
+    } catch (e) {
+        assert(e instanceof MatchAbortedError);
+        return e;
+    }
+    assert.fail("Should have been aborted");
+}
+
+describe("Match budgets", () => {
+
+    const assignment = Microgrammar.fromDefinitions<{ name: string, value: number }>({
+        name: /[a-z]+/,
+        _eq: "=",
+        value: Integer,
+        _semi: ";",
+    });
+
+    const input = "a=1; b=2; c=3; d=4; e=5;";
+
+    it("finds the same matches within budget", () => {
+        const matches = assignment.findMatches(input, {}, undefined, undefined,
+            { budget: { maxInvocations: 10000, deadline: Date.now() + 60000 } });
+        assert.deepEqual(matches.map(m => m.$matched), assignment.findMatches(input).map(m => m.$matched));
+    });
+
+    it("aborts when invocations are exceeded", () => {
+        const e = abortOf(() => assignment.findMatches(input, {}, undefined, undefined,
+            { budget: { maxInvocations: 20 } }));
+        assert(e.reason === "invocations");
+        assert(e.offset > 0 && e.offset < input.length);
+        assert(!!e.matcher);
+        assert(e.name === "MatchAbortedError");
+        assert(e.message.indexOf(`offset ${e.offset}`) !== -1);
+    });
+
+    it("aborts when the deadline has passed", () => {
+        const e = abortOf(() => assignment.firstMatch(input, undefined, { budget: { deadline: Date.now() - 1 } }));
+        assert(e.reason === "deadline");
+        assert(e.offset === 0);
+    });
+
+    it("aborts when cancelled", () => {
+        let checks = 0;
+        const cancellation: CancellationToken = {
+            get cancelled() {
+                return ++checks > 10;
+            },
+        };
+        const e = abortOf(() => assignment.findMatches(input, {}, undefined, undefined, { cancellation }));
+        assert(e.reason === "cancelled");
+        assert(e.offset > 0);
+    });
+
+    it("applies to exactMatch", () => {
+        const e = abortOf(() => assignment.exactMatch("a=1;", {}, undefined, { budget: { maxInvocations: 2 } }));
+        assert(e.reason === "invocations");
+        assert(isPatternMatch(assignment.exactMatch("a=1;", {}, undefined, { budget: { maxInvocations: 100 } })));
+    });
+
+    it("stops a long skip", () => {
+        const skipping = Microgrammar.fromDefinitions({ _start: "<", skipped: yadaYadaThen(/[>\]]/) });
+        const long = "<" + new Array(10001).join("x");
+        const e = abortOf(() => skipping.findMatches(long, {}, undefined, undefined, { budget: { maxInvocations: 1000 } }));
+        assert(e.offset < 1100);
+    });
+
+    it("yields matches found before aborting", () => {
+        const iterator = assignment.matchIterator(input, {}, undefined, { budget: { maxInvocations: 20 } })
+            [Symbol.iterator]();
+        assert(iterator.next().value.name === "a");
+        abortOf(() => {
+            while (!iterator.next().done) {
+                // Keep going
+            }
+        });
+    });
+
+});
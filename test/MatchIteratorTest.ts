@@ -0,0 +1,69 @@
+import "mocha";
+import * as assert from "power-assert";
+
+import { Microgrammar } from "../src/Microgrammar";
+import { Integer } from "../src/Primitives";
+import { StringInputStream } from "../src/spi/StringInputStream";
+
+function take<T>(matches: Iterable<T>, n: number): T[] {
+    const taken: T[] = [];
+    const iterator = matches[Symbol.iterator]();
+    while (taken.length < n) {
+        const result = iterator.next();
+        if (result.done) {
+            break;
+        }
+        taken.push(result.value);
+    }
+    return taken;
+}
+
+describe("Match iterator", () => {
+
+    const assignment = Microgrammar.fromDefinitions<{ name: string, value: number }>({
+        name: /[a-z]+/,
+        _eq: "=",
+        value: Integer,
+        _semi: ";",
+    });
+
+    it("finds nothing in empty input", () => {
+        assert(take(assignment.matchIterator(""), 10).length === 0);
+    });
+
+    it("finds the same matches as findMatches", () => {
+        const input = "a=1; b = 2; c=; d=4;;e=55; f";
+        const matches = take(assignment.matchIterator(input), 100);
+        assert.deepEqual(matches.map(m => m.matchedStructure()),
+            assignment.findMatches(input).map(m => m.matchedStructure()));
+        assert.deepEqual(matches.map(m => m.$offset), [0, 5, 16, 21]);
+        assert((matches[0] as any).$name === matches[0].$matcherId);
+    });
+
+    it("reads nothing until a match is requested", () => {
+        const stream = new StringInputStream("a=1;");
+        const matches = assignment.matchIterator(stream);
+        assert(stream.offset === 0);
+        assert(take(matches, 1)[0].value === 1);
+    });
+
+    it("stops reading when the caller stops", () => {
+        let input = "";
+        for (let i = 0; i < 10000; i++) {
+            input += `v=${i}; `;
+        }
+        const stream = new StringInputStream(input);
+        const matches = take(assignment.matchIterator(stream), 2);
+        assert.deepEqual(matches.map(m => m.value), [0, 1]);
+        assert(stream.offset < input.length / 2);
+    });
+
+    it("can be resumed after breaking off", () => {
+        const iterator = assignment.matchIterator("a=1; b=2; c=3;")[Symbol.iterator]();
+        assert(iterator.next().value.name === "a");
+        assert(iterator.next().value.name === "b");
+        assert(iterator.next().value.name === "c");
+        assert(iterator.next().done);
+    });
+
+});
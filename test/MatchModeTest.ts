@@ -0,0 +1,75 @@
+import "mocha";
+import * as assert from "power-assert";
+
+import { MatchingOptions } from "../src/MatchingOptions";
+import { Microgrammar } from "../src/Microgrammar";
+import { MultiMicrogrammar } from "../src/MultiMicrogrammar";
+import { Integer } from "../src/Primitives";
+
+function offsetsOf(mg: Microgrammar<any>, input: string, options: MatchingOptions): number[] {
+    return mg.findMatches(input, {}, undefined, undefined, options).map(m => m.$offset);
+}
+
+describe("Match modes", () => {
+
+    const pair = Microgrammar.fromDefinitions({ aa: "aa" });
+
+    const call = Microgrammar.fromDefinitions<{ name: string }>({
+        name: /[a-z]+/,
+        _open: "(",
+    });
+
+    const assignment = Microgrammar.fromDefinitions<{ name: string, value: number }>({
+        name: /[a-z]+/,
+        _eq: "=",
+        value: Integer,
+        _semi: ";",
+    });
+
+    it("doesn't report overlapping matches by default", () => {
+        assert.deepEqual(offsetsOf(pair, "aaaaa", {}), [0, 2]);
+        assert.deepEqual(offsetsOf(pair, "aaaaa", { matchMode: "non-overlapping" }), [0, 2]);
+    });
+
+    it("reports overlapping matches", () => {
+        assert.deepEqual(offsetsOf(pair, "aaaaa", { matchMode: "overlapping" }), [0, 1, 2, 3]);
+    });
+
+    it("reports nested matches", () => {
+        const matches = call.findMatches("x foo(", {}, undefined, undefined, { matchMode: "overlapping" });
+        assert.deepEqual(matches.map(m => m.$matched), ["foo(", "oo(", "o("]);
+    });
+
+    it("doesn't report matches starting with skipped whitespace when overlapping", () => {
+        assert.deepEqual(offsetsOf(assignment, "a = 1; b=2;", { matchMode: "overlapping" }), [0, 7]);
+    });
+
+    it("reports every start", () => {
+        const matches = assignment.findMatches("a = 1; b=2;", {}, undefined, undefined, { matchMode: "all-starts" });
+        assert.deepEqual(matches.map(m => m.$offset), [0, 6, 7]);
+        assert.deepEqual(matches.map(m => m.$matched), ["a = 1;", " b=2;", "b=2;"]);
+    });
+
+    it("can still stop after a match", () => {
+        const matches = pair.findMatches("aaaaa", {}, undefined, pm => pm.$offset === 1, { matchMode: "overlapping" });
+        assert.deepEqual(matches.map(m => m.$offset), [0, 1]);
+    });
+
+    it("applies to the match iterator", () => {
+        const iterator = pair.matchIterator("aaa", {}, undefined, { matchMode: "overlapping" })[Symbol.iterator]();
+        assert(iterator.next().value.$offset === 0);
+        assert(iterator.next().value.$offset === 1);
+        assert(iterator.next().done);
+    });
+
+    it("applies to each grammar of a MultiMicrogrammar", () => {
+        const multi = new MultiMicrogrammar({ pair, call });
+        const found = multi.findMatches("aaa(", {}, undefined, { matchMode: "overlapping" });
+        assert.deepEqual(found.map(f => `${f.grammar}@${f.match.$offset}`),
+            ["pair@0", "call@0", "pair@1", "call@1", "call@2"]);
+        const all = multi.findMatches(" aa(", {}, undefined, { matchMode: "all-starts" });
+        assert.deepEqual(all.map(f => `${f.grammar}@${f.match.$offset}`),
+            ["pair@0", "call@0", "pair@1", "call@1", "call@2"]);
+    });
+
+});
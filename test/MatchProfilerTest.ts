@@ -0,0 +1,120 @@
+import "mocha";
+import * as assert from "power-assert";
+
+import { Concat } from "../src/matchers/Concat";
+import { MatchFailureReport } from "../src/MatchPrefixResult";
+import { MatchProfiler, ProfileEntry } from "../src/MatchProfiler";
+import { Microgrammar } from "../src/Microgrammar";
+import { Alt } from "../src/Ops";
+import { Literal } from "../src/Primitives";
+import { AsyncInputStream } from "../src/spi/AsyncInputStream";
+
+/**
+ * Clock that advances a millisecond every time it's read
+ */
+function tickingClock(): () => number {
+    let now = 0;
+    return () => now++;
+}
+
+function entryFor(entries: ProfileEntry[], path: string, matcherId: string): ProfileEntry {
+    const found = entries.filter(e => e.path === path && e.matcherId === matcherId);
+    assert(found.length === 1);
+    return found[0];
+}
+
+describe("Match profiling", () => {
+
+    const assignment = Microgrammar.fromDefinitions<{ name: string, value: string }>({
+        name: /[a-z]+/,
+        _eq: "=",
+        value: new Alt("yes", "no"),
+    });
+
+    it("counts invocations by step path and id", () => {
+        const profiler = new MatchProfiler(tickingClock());
+        assignment.findMatches("a = no; b = yes; c", {}, undefined, undefined, { tracer: profiler });
+        const report = profiler.report();
+        const top = entryFor(report, "", "Concat{name,_eq,value}");
+        assert(top.successes === 2);
+        assert(top.failures === top.invocations - 2);
+        const yes = entryFor(report, "value", "Literal[yes]");
+        assert(yes.invocations === 2);
+        assert(yes.successes === 1);
+        assert(yes.failures === 1);
+        assert(entryFor(report, "value", "Alt(Literal[yes],Literal[no])").successes === 2);
+    });
+
+    it("distinguishes the same matcher in different places", () => {
+        const word = /[a-z]+/;
+        const profiler = new MatchProfiler(tickingClock());
+        const grammar = Microgrammar.fromDefinitions({
+            first: word,
+            nested: Concat.of({ second: word }),
+        });
+        grammar.firstMatch("a b", undefined, { tracer: profiler });
+        const report = profiler.report();
+        assert(entryFor(report, "first", "Regex: ^[a-z]+").invocations === 1);
+        assert(entryFor(report, "nested.second", "Regex: ^[a-z]+").invocations === 1);
+    });
+
+    it("separates self time from total time", () => {
+        const profiler = new MatchProfiler(tickingClock());
+        Microgrammar.fromDefinitions({ a: "a", b: "b" }).firstMatch("ab", undefined, { tracer: profiler });
+        const report = profiler.report();
+        const concat = entryFor(report, "", "Concat{a,b}");
+        const a = entryFor(report, "a", "Literal[a]");
+        const b = entryFor(report, "b", "Literal[b]");
+        assert(a.time === 1 && a.selfTime === 1);
+        assert(b.time === 1 && b.selfTime === 1);
+        // Enter and exit of each child take a tick each
+        assert(concat.time === 5);
+        assert(concat.selfTime === 3);
+    });
+
+    it("does not count time of recursive invocations twice", () => {
+        const profiler = new MatchProfiler(tickingClock());
+        const recursive = new Literal("x");
+        const failure = new MatchFailureReport(recursive.$id, 0);
+        profiler.enter(recursive, 0);
+        profiler.enter(recursive, 0);
+        profiler.exit(recursive, 0, failure);
+        profiler.exit(recursive, 0, failure);
+        const entry = entryFor(profiler.report(), "", recursive.$id);
+        assert(entry.invocations === 2);
+        assert(entry.failures === 2);
+        assert(entry.time === 3);
+        assert(entry.selfTime === 3);
+    });
+
+    it("counts abandoned invocations separately", async () => {
+        const profiler = new MatchProfiler(tickingClock());
+        const chunks = ["x", " = y", "es"];
+        const stream: AsyncInputStream = {
+            exhausted: () => chunks.length === 0,
+            read: n => Promise.resolve(chunks.length > 0 ? chunks.shift() : ""),
+        };
+        for await (const m of assignment.matchStream(stream, {}, { tracer: profiler })) {
+            assert(m.name === "x");
+        }
+        const top = entryFor(profiler.report(), "", "Concat{name,_eq,value}");
+        assert(top.abandoned > 0);
+        assert(top.successes === 1);
+        assert(top.invocations === top.successes + top.failures);
+        assert(top.time >= top.selfTime && top.selfTime > 0);
+    });
+
+    it("sorts hotspots and formats them", () => {
+        const profiler = new MatchProfiler(tickingClock());
+        assignment.findMatches("a = no; b = yes", {}, undefined, undefined, { tracer: profiler });
+        const byInvocations = profiler.report("invocations");
+        for (let i = 1; i < byInvocations.length; i++) {
+            assert(byInvocations[i - 1].invocations >= byInvocations[i].invocations);
+        }
+        const lines = profiler.toText("invocations").split("\n");
+        assert(lines[0] === "self ms\ttotal ms\tcalls\tmatched\tfailed\tabandoned\tmatcher");
+        assert(lines.length === byInvocations.length + 1);
+        assert(lines.some(l => /\tvalue: Literal\[yes\]$/.test(l)));
+    });
+
+});
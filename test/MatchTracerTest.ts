@@ -0,0 +1,104 @@
+import "mocha";
+import * as assert from "power-assert";
+
+import { exactMatch } from "../src/internal/ExactMatch";
+import { MatchingLogic } from "../src/Matchers";
+import { Concat } from "../src/matchers/Concat";
+import { MatchPrefixResult } from "../src/MatchPrefixResult";
+import { TraceRecorder } from "../src/MatchTracer";
+import { Microgrammar } from "../src/Microgrammar";
+import { Alt } from "../src/Ops";
+import { isPatternMatch } from "../src/PatternMatch";
+import { AsyncInputStream } from "../src/spi/AsyncInputStream";
+
+describe("Match tracing", () => {
+
+    const assignment = Microgrammar.fromDefinitions<{ name: string, value: string }>({
+        name: /[a-z]+/,
+        _eq: "=",
+        value: new Alt("yes", "no"),
+    });
+
+    it("records calls as a tree", () => {
+        const tracer = new TraceRecorder();
+        const match = exactMatch(Concat.of({ a: "a", b: new Alt("x", "b") }), "a b", {}, undefined, { tracer });
+        assert(isPatternMatch(match));
+        assert(tracer.roots.length === 2);
+        const desired = tracer.roots[0];
+        assert(desired.matcherId === "Concat{a,b}");
+        assert(desired.matched);
+        assert(desired.length === 3);
+        assert.deepEqual(desired.children.map(c => c.matcherId), ["Literal[a]", "Alt(Literal[x],Literal[b])"]);
+        const alt = desired.children[1];
+        assert.deepEqual(alt.children.map(c => [c.matcherId, c.offset, c.matched]),
+            [["Literal[x]", 2, false], ["Literal[b]", 2, true]]);
+        assert(alt.children[0].length === undefined);
+    });
+
+    it("exports indented text", () => {
+        const tracer = new TraceRecorder();
+        assignment.findMatches("x = no", {}, undefined, undefined, { tracer });
+        const lines = tracer.toText().split("\n");
+        assert(lines[0] === "Concat{name,_eq,value} at 0 matched 6");
+        assert(lines[1] === "  Regex: ^[a-z]+ at 0 matched 1");
+        assert(lines[2] === "  Literal[=] at 2 matched 1");
+        assert(lines[4] === "    Literal[yes] at 4 failed");
+        assert(lines[5] === "    Literal[no] at 4 matched 2");
+    });
+
+    it("exports JSON", () => {
+        const tracer = new TraceRecorder();
+        assignment.findMatches("x = no", {}, undefined, undefined, { tracer });
+        const parsed = JSON.parse(JSON.stringify(tracer));
+        assert.deepEqual(parsed, tracer.roots);
+        assert(parsed[0].children.length === 3);
+    });
+
+    it("samples top level calls", () => {
+        const all = new TraceRecorder();
+        const sampled = new TraceRecorder({ sampleEvery: 3 });
+        const input = "a = yes; b = no; c = maybe; d = no";
+        assignment.findMatches(input, {}, undefined, undefined, { tracer: all });
+        assignment.findMatches(input, {}, undefined, undefined, { tracer: sampled });
+        assert(all.roots.length > 3);
+        assert.deepEqual(sampled.roots, all.roots.filter((r, i) => i % 3 === 0));
+    });
+
+    it("keeps most recent roots", () => {
+        const all = new TraceRecorder();
+        const recent = new TraceRecorder({ maxRoots: 2 });
+        const input = "a = yes; b = no";
+        assignment.findMatches(input, {}, undefined, undefined, { tracer: all });
+        assignment.findMatches(input, {}, undefined, undefined, { tracer: recent });
+        assert.deepEqual(recent.roots, all.roots.slice(-2));
+    });
+
+    it("leaves out invocations abandoned while streaming", async () => {
+        const tracer = new TraceRecorder();
+        const chunks = ["x", " = y", "es"];
+        const stream: AsyncInputStream = {
+            exhausted: () => chunks.length === 0,
+            read: n => Promise.resolve(chunks.length > 0 ? chunks.shift() : ""),
+        };
+        const names: string[] = [];
+        for await (const m of assignment.matchStream(stream, {}, { tracer })) {
+            names.push(m.name);
+        }
+        assert.deepEqual(names, ["x"]);
+        const all = new TraceRecorder();
+        assignment.findMatches("x = yes", {}, undefined, undefined, { tracer: all });
+        assert.deepEqual(tracer.roots, all.roots);
+    });
+
+    it("calls any tracer", () => {
+        const events: string[] = [];
+        const tracer = {
+            enter: (m: MatchingLogic, offset: number) => events.push(`enter ${m.$id} ${offset}`),
+            exit: (m: MatchingLogic, offset: number, r: MatchPrefixResult) => events.push(`exit ${m.$id} ${offset}`),
+        };
+        exactMatch(Concat.of({ a: "a" }), "a", {}, undefined, { tracer });
+        assert.deepEqual(events.slice(0, 4),
+            ["enter Concat{a} 0", "enter Literal[a] 0", "exit Literal[a] 0", "exit Concat{a} 0"]);
+    });
+
+});
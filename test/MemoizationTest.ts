@@ -0,0 +1,108 @@
+import "mocha";
+import * as assert from "power-assert";
+
+import { MatchMemo } from "../src/internal/MatchMemo";
+import { Concat } from "../src/matchers/Concat";
+import { yadaYadaThen } from "../src/matchers/skip/Skip";
+import { MemoStats } from "../src/MatchingOptions";
+import { MatchFailureReport } from "../src/MatchPrefixResult";
+import { Microgrammar } from "../src/Microgrammar";
+import { firstOf, optional } from "../src/Ops";
+import { isPatternMatch } from "../src/PatternMatch";
+import { Integer, Literal } from "../src/Primitives";
+
+describe("Memoization", () => {
+
+    const name = /[a-z]+/;
+
+    const assignment = Concat.of({
+        name,
+        _eq: "=",
+        value: Integer,
+    });
+
+    // Both alternatives begin by matching the same assignment
+    const grammar = Microgrammar.fromDefinitions<any>({
+        statement: firstOf(
+            { first: assignment, _comma: ",", second: assignment, _semi: ";" },
+            { only: assignment, _semi: ";" }),
+    });
+
+    it("finds the same matches with and without memoization", () => {
+        const input = "a=1; b=2, c=3; x=y; d=4;";
+        const memoStats: MemoStats = { hits: 0, misses: 0 };
+        const plain = grammar.findMatches(input);
+        const memoized = grammar.findMatches(input, {}, undefined, undefined, { memoize: true, memoStats });
+        assert.deepEqual(memoized.map(m => m.$matched), plain.map(m => m.$matched));
+        assert.deepEqual(memoized.map(m => m.matchedStructure()), plain.map(m => m.matchedStructure()));
+        assert(memoized.length === 3);
+    });
+
+    it("reuses results of shared matchers", () => {
+        const memoStats: MemoStats = { hits: 0, misses: 0 };
+        const r = grammar.firstMatch("a=1;", undefined, { memoize: true, memoStats }) as any;
+        assert(r.statement.only.name === "a");
+        assert(memoStats.hits > 0);
+        assert(memoStats.misses > 0);
+    });
+
+    it("does not gather statistics unless memoizing", () => {
+        const memoStats: MemoStats = { hits: 0, misses: 0 };
+        grammar.findMatches("a=1;", {}, undefined, undefined, { memoStats });
+        assert(memoStats.hits === 0);
+        assert(memoStats.misses === 0);
+    });
+
+    it("supports exact match", () => {
+        const memoStats: MemoStats = { hits: 0, misses: 0 };
+        const r = grammar.exactMatch("a=1;", {}, undefined, { memoize: true, memoStats }) as any;
+        assert(isPatternMatch(r));
+        assert(r.statement.only.value === 1);
+        assert(memoStats.hits > 0);
+    });
+
+    it("does not corrupt memoized matches when skipping to them", () => {
+        const close = new Literal(">");
+        const mg = Microgrammar.fromDefinitions<any>({
+            _start: "<",
+            value: firstOf(
+                { _skip: yadaYadaThen(close), _bang: "!" },
+                { name, close }),
+            _tail: optional("?"),
+        });
+        const input = "<abc>?";
+        const memoized = mg.findMatches(input, {}, undefined, undefined, { memoize: true });
+        assert(memoized.length === 1);
+        assert(memoized[0].$matched === input);
+        assert(memoized[0].value.close === ">");
+    });
+
+    describe("MatchMemo", () => {
+
+        it("distinguishes matchers at the same offset", () => {
+            const memo = new MatchMemo();
+            const a = new Literal("a");
+            const b = new Literal("b");
+            const failure = new MatchFailureReport(b.$id, 0);
+            memo.put(b, 0, failure);
+            assert(memo.get(a, 0) === undefined);
+            assert(memo.get(b, 0) === failure);
+            assert(memo.stats.hits === 1);
+            assert(memo.stats.misses === 1);
+        });
+
+        it("drops results left of the window", () => {
+            const memo = new MatchMemo();
+            const a = new Literal("a");
+            const failure = new MatchFailureReport(a.$id, 3);
+            memo.put(a, 3, failure);
+            memo.put(a, 5, failure);
+            memo.dropLeft(4);
+            assert(memo.get(a, 3) === undefined);
+            assert(memo.get(a, 5) === failure);
+            memo.put(a, 3, failure);
+            assert(memo.get(a, 3) === undefined);
+        });
+    });
+
+});
@@ -0,0 +1,82 @@
+import "mocha";
+import * as assert from "power-assert";
+
+import { Microgrammar } from "../src/Microgrammar";
+import { MultiMicrogrammar } from "../src/MultiMicrogrammar";
+import { Integer } from "../src/Primitives";
+import { StringInputStream } from "../src/spi/StringInputStream";
+
+describe("MultiMicrogrammar", () => {
+
+    const assignment = Microgrammar.fromDefinitions<{ name: string, value: number }>({
+        name: /[a-z]+/,
+        _eq: "=",
+        value: Integer,
+    });
+
+    const call = Microgrammar.fromString<{ fn: string }>("${fn}()", { fn: /[a-z]+/ });
+
+    const annotation = Microgrammar.fromDefinitions<{ name: string }>({
+        _at: "@",
+        name: /[A-Z][a-zA-Z]*/,
+    });
+
+    const integer = Microgrammar.fromDefinitions<{ n: number }>({
+        n: Integer,
+    });
+
+    const grammars = { assignment, call, annotation, integer };
+
+    const input = "@Foo x = 10; y=20; go() @Bar z = stop(); 42";
+
+    it("finds nothing in empty input", () => {
+        const mmg = new MultiMicrogrammar(grammars);
+        assert.deepEqual(mmg.findMatches(""), []);
+    });
+
+    it("finds the same matches as each grammar on its own", () => {
+        const mmg = new MultiMicrogrammar(grammars);
+        const matches = mmg.findMatches(input);
+        for (const name of Object.keys(grammars)) {
+            const alone = grammars[name].findMatches(input);
+            const together = matches.filter(m => m.grammar === name).map(m => m.match);
+            assert.deepEqual(together.map(m => m.$offset), alone.map(m => m.$offset));
+            assert.deepEqual(together.map(m => m.$matched), alone.map(m => m.$matched));
+            assert.deepEqual(together.map(m => m.matchedStructure()), alone.map(m => m.matchedStructure()));
+        }
+    });
+
+    it("returns matches in order of offset, then grammar", () => {
+        const mmg = new MultiMicrogrammar(grammars);
+        const matches = mmg.findMatches(input);
+        assert.deepEqual(matches.map(m => m.grammar),
+            ["annotation", "assignment", "integer", "assignment", "integer", "call", "annotation", "call", "integer"]);
+        const offsets = matches.map(m => m.match.$offset);
+        assert.deepEqual(offsets, offsets.concat().sort((a, b) => a - b));
+    });
+
+    it("allows overlap between grammars but not within one", () => {
+        const digits = Microgrammar.fromDefinitions<{ d: string }>({
+            d: /[0-9]{2}/,
+        });
+        const mmg = new MultiMicrogrammar({ digits, integer });
+        const matches = mmg.findMatches("1234");
+        assert.deepEqual(matches.map(m => m.grammar + ":" + m.match.$matched),
+            ["digits:12", "integer:1234", "digits:34"]);
+    });
+
+    it("reads a stream", () => {
+        const mmg = new MultiMicrogrammar(grammars);
+        const matches = mmg.findMatches(new StringInputStream(input));
+        assert(matches.length === 9);
+    });
+
+    it("shares a memo between grammars", () => {
+        const memoStats = { hits: 0, misses: 0 };
+        const mmg = new MultiMicrogrammar(grammars);
+        const matches = mmg.findMatches(input, {}, undefined, { memoize: true, memoStats });
+        assert(matches.length === 9);
+        assert(memoStats.hits > 0);
+    });
+
+});
@@ -0,0 +1,72 @@
+import "mocha";
+import * as assert from "power-assert";
+
+import { Microgrammar } from "../src/Microgrammar";
+import { MultiMicrogrammar } from "../src/MultiMicrogrammar";
+import { isPatternMatch } from "../src/PatternMatch";
+import { Integer } from "../src/Primitives";
+
+describe("Offset range", () => {
+
+    const assignment = Microgrammar.fromDefinitions<{ name: string, value: number }>({
+        name: /[a-z]+/,
+        _eq: "=",
+        value: Integer,
+        _semi: ";",
+    });
+
+    //             0123456789012345678901234
+    const input = "a=1; b=2; c=3; d=4; e=5;";
+
+    it("matches only within the range, with offsets relative to the whole input", () => {
+        const matches = assignment.findMatches(input, {}, undefined, undefined, { startOffset: 5, endOffset: 19 });
+        assert.deepEqual(matches.map(m => m.name), ["b", "c", "d"]);
+        assert.deepEqual(matches.map(m => m.$offset), [5, 10, 15]);
+    });
+
+    it("doesn't find matches crossing the range boundaries", () => {
+        const matches = assignment.findMatches(input, {}, undefined, undefined, { startOffset: 6, endOffset: 17 });
+        assert.deepEqual(matches.map(m => m.name), ["c"]);
+    });
+
+    it("defaults to the whole input", () => {
+        assert(assignment.findMatches(input, {}, undefined, undefined, { startOffset: 0 }).length === 5);
+        assert(assignment.findMatches(input, {}, undefined, undefined, { endOffset: 1000 }).length === 5);
+    });
+
+    it("finds the first match in the range", () => {
+        const match = assignment.firstMatch(input, undefined, { startOffset: 12 });
+        assert(match.name === "d");
+        assert(match.$offset === 15);
+    });
+
+    it("finds nothing in an empty range", () => {
+        assert(assignment.findMatches(input, {}, undefined, undefined, { startOffset: 5, endOffset: 5 }).length === 0);
+    });
+
+    it("rejects an invalid range", () => {
+        assert.throws(() => assignment.findMatches(input, {}, undefined, undefined, { startOffset: -1 }));
+        assert.throws(() => assignment.findMatches(input, {}, undefined, undefined, { startOffset: 5, endOffset: 4 }));
+    });
+
+    it("can update the whole input", () => {
+        const match = assignment.firstMatch(input, undefined, { startOffset: 10 });
+        const updater = Microgrammar.updatableMatch(match, input);
+        updater.name = "x";
+        assert(updater.newContent() === "a=1; b=2; x=3; d=4; e=5;");
+    });
+
+    it("applies to exactMatch", () => {
+        assert(isPatternMatch(assignment.exactMatch(input, {}, undefined, { startOffset: 5, endOffset: 9 })));
+        assert(!isPatternMatch(assignment.exactMatch(input, {}, undefined, { startOffset: 5, endOffset: 11 })));
+    });
+
+    it("applies to the match iterator and MultiMicrogrammar", () => {
+        const iterator = assignment.matchIterator(input, {}, undefined, { startOffset: 20 })[Symbol.iterator]();
+        assert(iterator.next().value.name === "e");
+        assert(iterator.next().done);
+        const found = new MultiMicrogrammar({ assignment }).findMatches(input, {}, undefined, { endOffset: 4 });
+        assert.deepEqual(found.map(f => f.match.$offset), [0]);
+    });
+
+});
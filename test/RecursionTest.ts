@@ -1,54 +1,144 @@
 import "mocha";
 import { Microgrammar } from "../src/Microgrammar";
-import { Alt, firstOf } from "../src/Ops";
+import { firstOf } from "../src/Ops";
 
+import * as assert from "power-assert";
 import { fail } from "power-assert";
 import { Concat } from "../src/matchers/Concat";
 import { isPatternMatch } from "../src/PatternMatch";
 import { Integer } from "../src/Primitives";
 
-// TODO recursion is currently hard. This isn't right but
-// is a start to try to describe a model we should support
 describe("Left recursion", () => {
 
-    const term = Integer;
-    let tobeExpression: any = "";
-    const expression = {
-        expr: firstOf(Concat.of({
-            a: tobeExpression,
-            _log1: _ => console.log("Matched first inner a: " + _.a),
-            _plus: "+",
-            _log2: _ => console.log("Matched plus"),
-            b: tobeExpression,
-            $lazy: true,
-        }), term),
+    // expr := expr "+" term | term
+    const sum = {
+        left: null,    // This will be set later
+        _plus: "+",
+        right: Integer,
+        $lazy: true,
     };
-    tobeExpression = expression;
-    ((expression.expr as Alt).matchers[0] as any)._init();
-    const mg = Microgrammar.fromDefinitions(expression);
+    const sumConcat = Concat.of(sum);
+    const expr = firstOf(sumConcat, Integer);
+    sum.left = expr;
+    sumConcat._init();
 
-    it.skip("should match simple term", () => {
+    const mg = Microgrammar.fromDefinitions<{ expr: any }>({
+        expr,
+    });
+
+    it("should match simple term", () => {
         const input = "2";
         const r = mg.exactMatch(input);
         if (isPatternMatch(r)) {
-            // assert(r.type.name === "Thing");
-            // assert(r.type.param.name === "List");
-            // assert(r.type.param.param.name === "That");
+            assert(r.expr === 2);
         } else {
             fail("No match");
         }
     });
 
-    it.skip("should match complex term", () => {
+    it("should match complex term", () => {
         const input = "2 + 2";
         const r = mg.exactMatch(input);
         if (isPatternMatch(r)) {
-            // assert(r.type.name === "Thing");
-            // assert(r.type.param.name === "List");
-            // assert(r.type.param.param.name === "That");
+            assert(r.expr.left === 2);
+            assert(r.expr.right === 2);
+        } else {
+            fail("No match");
+        }
+    });
+
+    it("should associate to the left", () => {
+        const input = "1 + 2 + 3";
+        const r = mg.exactMatch(input);
+        if (isPatternMatch(r)) {
+            assert(r.expr.$matched === input);
+            assert(r.expr.left.left === 1);
+            assert(r.expr.left.right === 2);
+            assert(r.expr.right === 3);
         } else {
             fail("No match");
         }
     });
 
+    it("should match the same with memoization", () => {
+        const input = "1 + 2 + 3";
+        const r = mg.exactMatch(input, {}, undefined, { memoize: true });
+        if (isPatternMatch(r)) {
+            assert(r.expr.left.left === 1);
+            assert(r.expr.left.right === 2);
+            assert(r.expr.right === 3);
+        } else {
+            fail("No match");
+        }
+    });
+
+    it("should find left recursive matches in junk", () => {
+        const input = "x = 1 + 2; y = 3 +; 4 + 5 + 6";
+        const matches = mg.findMatches(input);
+        assert.deepEqual(matches.map(m => m.$matched), ["1 + 2", "3", "4 + 5 + 6"]);
+    });
+
+    it("should match qualified names", () => {
+        // name := name "." identifier | identifier
+        const qualified = {
+            qualifier: null,
+            _dot: ".",
+            name: /[a-zA-Z_]+/,
+            $lazy: true,
+        };
+        const qualifiedConcat = Concat.of(qualified);
+        const name = firstOf(qualifiedConcat, /[a-zA-Z_]+/);
+        qualified.qualifier = name;
+        qualifiedConcat._init();
+
+        const importGrammar = Microgrammar.fromDefinitions<{ what: any }>({
+            _import: "import",
+            what: name,
+            _semi: ";",
+        });
+        const result = importGrammar.firstMatch("import com.foo.Bar;");
+        assert(result.what.$matched === "com.foo.Bar");
+        assert(result.what.name === "Bar");
+        assert(result.what.qualifier.name === "foo");
+        assert(result.what.qualifier.qualifier === "com");
+    });
+
+    it("should support indirect left recursion", () => {
+        // list := item | list "," item, via an intermediate Concat
+        const list = {
+            prefix: null,
+            _comma: ",",
+            item: Integer,
+            $lazy: true,
+        };
+        const listConcat = Concat.of(list);
+        const anyList = firstOf(listConcat, Integer);
+        list.prefix = Concat.of({ inner: anyList });
+        listConcat._init();
+
+        const listGrammar = Microgrammar.fromDefinitions<{ list: any }>({
+            list: anyList,
+        });
+        const r = listGrammar.exactMatch("1, 2, 3");
+        if (isPatternMatch(r)) {
+            assert(r.list.item === 3);
+            assert(r.list.prefix.inner.item === 2);
+            assert(r.list.prefix.inner.prefix.inner === 1);
+        } else {
+            fail("No match");
+        }
+    });
+
+    it("should reject left recursion that cannot make progress", () => {
+        const definitions = {
+            left: null,
+            _plus: "+",
+            right: Integer,
+            $lazy: true,
+        };
+        const concat = Concat.of(definitions);
+        definitions.left = concat;
+        assert.throws(() => concat._init(), /cannot make progress/);
+    });
+
 });
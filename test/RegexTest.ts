@@ -47,6 +47,21 @@ describe("Regex", () => {
         assert(regexp.regex.source === "^[a-z]+");
     });
 
+    it("should keep flags when adding anchor", () => {
+        const regexp = new Regex(/[a-z]+/i);
+        assert(regexp.regex.source === "^[a-z]+");
+        assert(regexp.regex.ignoreCase);
+        assert(isSuccessfulMatch(regexp.matchPrefix(inputStateFromString("FRIDAY"))));
+    });
+
+    it("should match only at the start with global and multiline flags", () => {
+        const regexp = new Regex(/[a-z]+/gm);
+        const is = inputStateFromString("friday");
+        assert(isSuccessfulMatch(regexp.matchPrefix(is)));
+        assert(isSuccessfulMatch(regexp.matchPrefix(is)));
+        assert(!isSuccessfulMatch(regexp.matchPrefix(inputStateFromString("14\nfriday"))));
+    });
+
     it("failed match", () => {
         const regexp = new Regex(/[a-z]+/);
         const is = inputStateFromString("14 friday");
@@ -63,7 +78,7 @@ describe("Regex", () => {
         if (isSuccessfulMatch(m)) {
             const match = m as any as PatternMatch;
             assert(match.$matched === "**friday");
-            assert(match.$offset === 2);
+            assert(match.$offset === 0);
             assert(match.$value === "friday");
 
         } else {
@@ -1,7 +1,9 @@
 import { inputStateFromString } from "../src/internal/InputStateFactory";
-import { isSuccessfulMatch } from "../src/MatchPrefixResult";
+import { isSuccessfulMatch, MatchFailureReport } from "../src/MatchPrefixResult";
 import { PatternMatch } from "../src/PatternMatch";
-import { atLeastOne, Rep, Rep1, Rep1Sep, RepSep, zeroOrMore } from "../src/Rep";
+import {
+    atLeastOne, atLeastOneLazy, between, Rep, Rep1, Rep1Sep, RepSep, times, zeroOrMore, zeroOrMoreLazy,
+} from "../src/Rep";
 import { LEGAL_VALUE } from "./MavenGrammars";
 
 import { Microgrammar } from "../src/Microgrammar";
@@ -218,6 +220,156 @@ describe("Rep", () => {
             });
     });
 
+    it("times should match exactly n", () => {
+        const mg = Microgrammar.fromDefinitions<{ digits: string[] }>({
+            _hash: "#",
+            digits: times(/[0-9a-f]/, 4),
+        });
+        const result = mg.firstMatch("colour: #fa0e99");
+        assert.deepEqual(result.digits, ["f", "a", "0", "e"]);
+        assert(result.$matched === "#fa0e");
+    });
+
+    it("times should fail with too few", () => {
+        const rep = times("A", 3);
+        const m = rep.matchPrefix(inputStateFromString("AAB"), {}, {});
+        if (isSuccessfulMatch(m)) {
+            assert.fail("Should not have matched");
+        } else {
+            assert((m as MatchFailureReport).description.indexOf("Found 2 repetitions") !== -1);
+            assert((m as MatchFailureReport).description.indexOf("expected at least 3") !== -1);
+        }
+    });
+
+    it("between should match up to max", () => {
+        const rep = between("A", 1, 3);
+        const m = rep.matchPrefix(inputStateFromString("AAAAA"), {}, {});
+        if (isSuccessfulMatch(m)) {
+            assert(m.$matched === "AAA");
+        } else {
+            assert.fail("Didn't match");
+        }
+    });
+
+    it("between should match fewer than max", () => {
+        const rep = between("A", 1, 3);
+        const m = rep.matchPrefix(inputStateFromString("AAB"), {}, {});
+        if (isSuccessfulMatch(m)) {
+            assert(m.$matched === "AA");
+        } else {
+            assert.fail("Didn't match");
+        }
+    });
+
+    it("bounded rep sep should not consume separator after max", () => {
+        const rep = new RepSep(LEGAL_VALUE, ",").atMost(2);
+        const m = rep.matchPrefix(inputStateFromString("a, b, c"), {}, {});
+        if (isSuccessfulMatch(m)) {
+            assert(m.$matched === "a, b");
+            assert.deepEqual(m.$value, ["a", "b"]);
+        } else {
+            assert.fail("Didn't match");
+        }
+    });
+
+    it("bounded rep1 sep", () => {
+        const mg = Microgrammar.fromDefinitions<{ annotations: string[] }>({
+            annotations: new Rep1Sep(/@[A-Za-z]+/, ",").atMost(3),
+        });
+        const result = mg.firstMatch("@A, @B, @C, @D");
+        assert.deepEqual(result.annotations, ["@A", "@B", "@C"]);
+    });
+
+    it("times with separator", () => {
+        const rep = times(/[0-9]+/, 4, ".");
+        const m = rep.matchPrefix(inputStateFromString("192.168.0.1.5"), {}, {});
+        if (isSuccessfulMatch(m)) {
+            assert(m.$matched === "192.168.0.1");
+        } else {
+            assert.fail("Didn't match");
+        }
+    });
+
+    it("rejects max less than min", () => {
+        assert.throws(() => between("A", 3, 2), /max of 2 is less than min of 3/);
+        assert.throws(() => new Rep1("A").atMost(0));
+    });
+
+    it("lazy rep matches as few as possible on its own", () => {
+        const m = zeroOrMoreLazy(/[a-z]+/).matchPrefix(inputStateFromString("a b c"), {}, {});
+        if (isSuccessfulMatch(m)) {
+            assert(m.$matched === "");
+            assert.deepEqual(m.$value, []);
+        } else {
+            assert.fail("Didn't match");
+        }
+        const m1 = atLeastOneLazy(/[a-z]+/).matchPrefix(inputStateFromString("a b c"), {}, {});
+        if (isSuccessfulMatch(m1)) {
+            assert(m1.$matched === "a");
+        } else {
+            assert.fail("Didn't match");
+        }
+    });
+
+    it("lazy rep stops at first terminal", () => {
+        const mg = Microgrammar.fromDefinitions<{ args: string[] }>({
+            _open: "(",
+            args: zeroOrMoreLazy(/[^\s)]+|\)/),
+            _close: ")",
+        });
+        const result = mg.firstMatch("f(a b) c)");
+        assert.deepEqual(result.args, ["a", "b"]);
+    });
+
+    it("greedy rep with same terminal cannot match", () => {
+        const mg = Microgrammar.fromDefinitions<{ args: string[] }>({
+            _open: "(",
+            args: zeroOrMore(/[^\s)]+|\)/),
+            _close: ")",
+        });
+        assert(!mg.firstMatch("f(a b) c)"));
+    });
+
+    it("lazy rep with separator", () => {
+        const mg = Microgrammar.fromDefinitions<{ args: string[] }>({
+            _open: "(",
+            args: new RepSep(/[^,]+?/, ",").nonGreedy(),
+            _close: ")",
+        });
+        const result = mg.firstMatch("(a,b,c) d)");
+        assert.deepEqual(result.args, ["a", "b", "c"]);
+    });
+
+    it("lazy rep respects minimum", () => {
+        const mg = Microgrammar.fromDefinitions<{ words: string[] }>({
+            words: atLeastOneLazy(/[a-z]+/),
+            _end: /[a-z]+/,
+        });
+        const result = mg.firstMatch("a b c");
+        assert.deepEqual(result.words, ["a"]);
+        assert(result.$matched === "a b");
+    });
+
+    it("lazy rep within optional", () => {
+        const mg = Microgrammar.fromDefinitions<{ args: string[] }>({
+            _open: "(",
+            args: new Opt(atLeastOneLazy(/[^\s)]+|\)/)),
+            _close: ")",
+        });
+        const result = mg.firstMatch("f(a b) c)");
+        assert.deepEqual(result.args, ["a", "b"]);
+    });
+
+    it("lazy rep within firstOf", () => {
+        const mg = Microgrammar.fromDefinitions<{ args: string[] }>({
+            _open: "(",
+            args: new Alt(atLeastOneLazy(/[^\s)]+|\)/), "-"),
+            _close: ")",
+        });
+        const result = mg.firstMatch("f(a b) c)");
+        assert.deepEqual(result.args, ["a", "b"]);
+    });
+
 });
 
 const property = {
@@ -0,0 +1,185 @@
+import "mocha";
+import * as assert from "power-assert";
+
+import { Microgrammar } from "../src/Microgrammar";
+import { PatternMatch } from "../src/PatternMatch";
+import { Integer } from "../src/Primitives";
+import { AsyncInputStream } from "../src/spi/AsyncInputStream";
+import { ReadableInputStream, ReadableLike } from "../src/spi/ReadableInputStream";
+
+/**
+ * Readable that emits what we tell it to
+ */
+class FakeReadable implements ReadableLike {
+
+    public pauses = 0;
+
+    public paused = false;
+
+    private listeners: { [event: string]: Array<(...args: any[]) => void> } = {};
+
+    public on(event: string, listener: (...args: any[]) => void) {
+        this.listeners[event] = (this.listeners[event] || []).concat([listener]);
+        return this;
+    }
+
+    public pause() {
+        this.paused = true;
+        ++this.pauses;
+    }
+
+    public resume() {
+        this.paused = false;
+    }
+
+    public emit(event: string, ...args: any[]) {
+        (this.listeners[event] || []).forEach(l => l(...args));
+    }
+
+    /**
+     * Emit the chunks asynchronously, one at a time, then end
+     */
+    public emitAll(chunks: string[]) {
+        const emitNext = () => {
+            if (chunks.length === 0) {
+                this.emit("end");
+            } else {
+                this.emit("data", chunks.shift());
+                setTimeout(emitNext, 0);
+            }
+        };
+        setTimeout(emitNext, 0);
+    }
+}
+
+async function collect<T>(matches: AsyncIterable<T>): Promise<T[]> {
+    const all: T[] = [];
+    for await (const m of matches) {
+        all.push(m);
+    }
+    return all;
+}
+
+describe("Stream matching", () => {
+
+    const assignment = Microgrammar.fromDefinitions<{ name: string, value: number }>({
+        name: /[a-z]+/,
+        _eq: "=",
+        value: Integer,
+        _semi: ";",
+    });
+
+    it("finds nothing in empty stream", async () => {
+        const readable = new FakeReadable();
+        readable.emitAll([]);
+        const matches = await collect(assignment.matchStream(readable));
+        assert(matches.length === 0);
+    });
+
+    it("finds matches across chunk boundaries", async () => {
+        const readable = new FakeReadable();
+        readable.emitAll(["junk x = 1", "0; y", "y = 2", "0; z = ;", " w=3;"]);
+        const matches = await collect(assignment.matchStream(readable));
+        assert.deepEqual(matches.map(m => m.$matched), ["x = 10;", "yy = 20;", "w=3;"]);
+        assert.deepEqual(matches.map(m => m.$offset), [5, 13, 28]);
+        assert.deepEqual(matches.map(m => m.value), [10, 20, 3]);
+    });
+
+    it("finds the same matches as findMatches", async () => {
+        const input = "a=1; b = 2; c=; d=4;;e=55;";
+        const readable = new FakeReadable();
+        readable.emitAll(input.split(""));
+        const matches = await collect(assignment.matchStream(readable));
+        assert.deepEqual(matches.map(m => m.matchedStructure()),
+            assignment.findMatches(input).map(m => m.matchedStructure()));
+    });
+
+    it("yields a match before the stream ends", async () => {
+        const readable = new FakeReadable();
+        const iterator = assignment.matchStream(readable)[Symbol.asyncIterator]();
+        const first = iterator.next();
+        // Regexes look ahead
+        const padding = new Array(101).join(" ");
+        readable.emit("data", "a = 1;" + padding + "b = ");
+        const result = await first;
+        assert((result.value as PatternMatch & { name: string }).name === "a");
+        const second = iterator.next();
+        readable.emit("data", "2;");
+        readable.emit("end");
+        assert((await second).value.$matched === "b = 2;");
+        assert((await iterator.next()).done);
+    });
+
+    it("applies backpressure", async () => {
+        const readable = new FakeReadable();
+        const stream = new ReadableInputStream(readable, 10);
+        for (let i = 0; i < 5; i++) {
+            readable.emit("data", `v=${i}; `);
+        }
+        readable.emit("end");
+        assert(readable.paused);
+        const matches = await collect(assignment.matchStream(stream));
+        assert(matches.length === 5);
+        assert(!readable.paused);
+        assert(readable.pauses > 0);
+    });
+
+    it("propagates errors", async () => {
+        const readable = new FakeReadable();
+        const iterator = assignment.matchStream(readable)[Symbol.asyncIterator]();
+        const first = iterator.next();
+        readable.emit("data", "a = 1");
+        readable.emit("error", new Error("Connection reset"));
+        try {
+            await first;
+            assert.fail("Should have failed");
+        } catch (e) {
+            assert(e.message === "Connection reset");
+        }
+    });
+
+    it("reads any AsyncInputStream", async () => {
+        const chunks = ["a=", "1;", "b=2;"];
+        const stream: AsyncInputStream = {
+            exhausted: () => chunks.length === 0,
+            read: n => Promise.resolve(chunks.length > 0 ? chunks.shift() : ""),
+        };
+        const matches = await collect(assignment.matchStream(stream));
+        assert.deepEqual(matches.map(m => m.name), ["a", "b"]);
+    });
+
+    it("doesn't charge the budget for retried work", async () => {
+        const input = "a = 1; b = 22; c = 333;";
+        let invocations = 0;
+        assignment.findMatches(input, {}, undefined, undefined,
+            { tracer: { enter: () => ++invocations, exit: () => undefined } });
+        const chunks = input.split("");
+        const stream: AsyncInputStream = {
+            exhausted: () => chunks.length === 0,
+            read: n => Promise.resolve(chunks.length > 0 ? chunks.shift() : ""),
+        };
+        const matches = await collect(assignment.matchStream(stream, {}, { budget: { maxInvocations: invocations } }));
+        assert.deepEqual(matches.map(m => m.name), ["a", "b", "c"]);
+    });
+
+    it("retries a long match a logarithmic number of times", async () => {
+        const chunks = (new Array(1001).join("x") + "=1;").split("");
+        const stream: AsyncInputStream = {
+            exhausted: () => chunks.length === 0,
+            read: n => Promise.resolve(chunks.length > 0 ? chunks.shift() : ""),
+        };
+        let abandoned = 0;
+        const tracer = {
+            enter: () => undefined,
+            exit: (m, offset, result) => {
+                if (m === assignment.matcher && result === undefined) {
+                    ++abandoned;
+                }
+            },
+        };
+        const matches = await collect(assignment.matchStream(stream, {}, { tracer }));
+        assert.deepEqual(matches.map(m => m.value), [1]);
+        assert(abandoned > 0 && abandoned < 20);
+    });
+
+});
@@ -0,0 +1,155 @@
+import "mocha";
+import * as assert from "power-assert";
+
+import { firstCharactersOf, firstCharactersOfRegex } from "../../src/internal/FirstCharacters";
+import { FirstCharacters } from "../../src/Matchers";
+import { Concat } from "../../src/matchers/Concat";
+import { lookahead } from "../../src/matchers/Lookahead";
+import { takeUntil } from "../../src/matchers/skip/Skip";
+import { Span } from "../../src/matchers/snobol/Span";
+import { Microgrammar } from "../../src/Microgrammar";
+import { Alt, firstOf, optional, when } from "../../src/Ops";
+import { Float, Integer, LowercaseBoolean } from "../../src/Primitives";
+import { atLeastOne, zeroOrMore } from "../../src/Rep";
+
+function sorted(first: FirstCharacters): string {
+    return first.characters.split("").sort().join("");
+}
+
+describe("FirstCharacters", () => {
+
+    describe("of regexes", () => {
+
+        it("handles literals", () => {
+            const first = firstCharactersOfRegex(/abc/);
+            assert(first.characters === "a");
+            assert(!first.canMatchEmpty);
+        });
+
+        it("handles character classes and ranges", () => {
+            assert(sorted(firstCharactersOfRegex(/[a-c_]x/)) === "_abc");
+            assert(sorted(firstCharactersOfRegex(/[\d.]/)) === ".0123456789");
+            assert(sorted(firstCharactersOfRegex(/[-+]/)) === "+-");
+        });
+
+        it("handles escapes", () => {
+            assert(sorted(firstCharactersOfRegex(/\d+/)) === "0123456789");
+            assert(firstCharactersOfRegex(/\w/).characters.length === 63);
+            assert(firstCharactersOfRegex(/\./).characters === ".");
+            assert(firstCharactersOfRegex(/\x41/).characters === "A");
+        });
+
+        it("handles quantifiers", () => {
+            assert(sorted(firstCharactersOfRegex(/a?b*c+d/)) === "abc");
+            assert(sorted(firstCharactersOfRegex(/a{0,2}b{1,}/)) === "ab");
+            const optional = firstCharactersOfRegex(/a*/);
+            assert(optional.characters === "a");
+            assert(optional.canMatchEmpty);
+        });
+
+        it("handles groups and alternation", () => {
+            assert(sorted(firstCharactersOfRegex(/^(?:foo|bar)|(baz)/)) === "bf");
+            assert(sorted(firstCharactersOfRegex(/(?=x)y/)) === "y");
+        });
+
+        it("handles case insensitivity", () => {
+            assert(sorted(firstCharactersOfRegex(/a/i)) === "Aa");
+        });
+
+        it("doesn't know about negated classes and wildcards", () => {
+            assert(firstCharactersOfRegex(/[^a]/) === undefined);
+            assert(firstCharactersOfRegex(/.x/) === undefined);
+            assert(firstCharactersOfRegex(/\S/) === undefined);
+            assert(firstCharactersOfRegex(/(a)\1/).characters === "a");
+            assert(firstCharactersOfRegex(/a?\1/) === undefined);
+        });
+
+        it("doesn't exclude anything for whitespace", () => {
+            assert(firstCharactersOfRegex(/\s+/).characters === "");
+        });
+
+        it("works out primitives", () => {
+            assert(sorted(Integer.firstCharacters) === "0123456789");
+            assert(sorted(Float.firstCharacters) === "+-.0123456789");
+            assert(sorted(LowercaseBoolean.firstCharacters) === "ft");
+        });
+    });
+
+    describe("of matchers", () => {
+
+        it("uses literals", () => {
+            assert(firstCharactersOf(Concat.of({ a: "foo" })).characters === "f");
+        });
+
+        it("computes alternatives", () => {
+            assert(sorted(new Alt("foo", /[0-9]/).firstCharacters) === "0123456789f");
+            assert(new Alt("foo", /[^0-9]/).firstCharacters === undefined);
+        });
+
+        it("looks past optional steps", () => {
+            const concat = Concat.of({
+                a: optional("x"),
+                b: zeroOrMore("y"),
+                c: atLeastOne("z"),
+                d: "never",
+            });
+            assert(sorted(concat.firstCharacters) === "xyz");
+            assert(!concat.firstCharacters.canMatchEmpty);
+        });
+
+        it("ignores lookahead", () => {
+            const concat = Concat.of({ la: lookahead("x"), x: /[a-z]/ });
+            assert(concat.firstCharacters.characters.length === 26);
+        });
+
+        it("doesn't know what Break skips", () => {
+            assert(firstCharactersOf(Concat.of({ a: takeUntil("x") })) === undefined);
+        });
+
+        it("uses Span characters", () => {
+            assert(firstCharactersOf(Concat.of({ a: new Span("abc") })).characters === "abc");
+        });
+
+        it("copes with recursion", () => {
+            const nested = { _open: "(", inner: null, _close: ")", $lazy: true };
+            const nestedConcat = Concat.of(nested);
+            const alt = firstOf(nestedConcat, /[a-z]/);
+            nested.inner = alt;
+            nestedConcat._init();
+            assert(alt.firstCharacters.characters.length === 27);
+        });
+
+        it("doesn't know an uninitialized Concat", () => {
+            const concat = Concat.of({ a: "x", $lazy: true });
+            assert(concat.firstCharacters === undefined);
+        });
+    });
+
+    describe("in scanning", () => {
+
+        it("only tries to match at possible starts", () => {
+            const tried: number[] = [];
+            const mg = Microgrammar.fromDefinitions<{ n: string }>({
+                n: when(/[0-9]+/, pm => true, is => {
+                    tried.push(is.offset);
+                    return true;
+                }),
+                _semi: ";",
+            });
+            const input = "abc 12; def 3 4;";
+            const matches = mg.findMatches(input);
+            assert.deepEqual(matches.map(m => m.n), ["12", "4"]);
+            assert.deepEqual(tried.filter(offset => offset < input.length), [4, 12, 14]);
+        });
+
+        it("still matches at whitespace if whitespace is significant", () => {
+            const mg = Microgrammar.fromDefinitions<{ n: string }>({
+                n: /\s*[0-9]+/,
+                $consumeWhiteSpaceBetweenTokens: false,
+            });
+            const matches = mg.findMatches("x 12");
+            assert.deepEqual(matches.map(m => m.n), [" 12"]);
+        });
+    });
+
+});
@@ -0,0 +1,84 @@
+import "mocha";
+import * as assert from "power-assert";
+
+import { LinePositions, Position } from "../../src/internal/LinePositions";
+
+function at(line: number, column: number): Position {
+    return { line, column };
+}
+
+describe("LinePositions", () => {
+
+    it("counts lines and columns from 1", () => {
+        const lp = new LinePositions();
+        lp.record("ab\ncd\n\nef");
+        assert.deepEqual(lp.positionOf(0), at(1, 1));
+        assert.deepEqual(lp.positionOf(2), at(1, 3));
+        assert.deepEqual(lp.positionOf(3), at(2, 1));
+        assert.deepEqual(lp.positionOf(6), at(3, 1));
+        assert.deepEqual(lp.positionOf(8), at(4, 2));
+        assert.deepEqual(lp.positionOf(9), at(4, 3));
+    });
+
+    it("treats CRLF as a single line ending", () => {
+        const lp = new LinePositions();
+        lp.record("ab\r\ncd");
+        assert.deepEqual(lp.positionOf(4), at(2, 1));
+        assert.deepEqual(lp.positionOf(2), at(1, 3));
+    });
+
+    it("ignores lone carriage returns by default", () => {
+        const lp = new LinePositions();
+        lp.record("ab\rcd");
+        assert.deepEqual(lp.positionOf(3), at(1, 4));
+    });
+
+    it("can end lines with carriage returns", () => {
+        const lp = new LinePositions(1, true);
+        lp.record("ab\rcd\r");
+        lp.record("\nef");
+        assert.deepEqual(lp.positionOf(3), at(2, 1));
+        assert.deepEqual(lp.positionOf(7), at(3, 1));
+    });
+
+    it("expands tabs", () => {
+        const lp = new LinePositions(4);
+        lp.record("\tx\n a\tb\t\tc");
+        assert.deepEqual(lp.positionOf(1), at(1, 5));
+        assert.deepEqual(lp.positionOf(5), at(2, 3));
+        assert.deepEqual(lp.positionOf(6), at(2, 5));
+        assert.deepEqual(lp.positionOf(9), at(2, 13));
+    });
+
+    it("counts a tab as one column by default", () => {
+        const lp = new LinePositions();
+        lp.record("\t\tx");
+        assert.deepEqual(lp.positionOf(2), at(1, 3));
+    });
+
+    it("can start partway through input", () => {
+        const lp = new LinePositions(4, false, 10, at(3, 2));
+        lp.record("a\tb\nc");
+        assert.deepEqual(lp.positionOf(10), at(3, 2));
+        assert.deepEqual(lp.positionOf(12), at(3, 5));
+        assert.deepEqual(lp.positionOf(14), at(4, 1));
+    });
+
+    it("continues from an offset", () => {
+        const lp = new LinePositions(4);
+        lp.record("ab\n\tcd");
+        const within = lp.startingAt(4);
+        within.record("cd");
+        assert.deepEqual(within.positionOf(5), at(2, 6));
+    });
+
+    it("forgets lines before those it still needs", () => {
+        const lp = new LinePositions(4);
+        lp.record("a\tb\nc\td\ne");
+        lp.dropLeft(5);
+        assert.deepEqual(lp.positionOf(6), at(2, 5));
+        assert.deepEqual(lp.positionOf(8), at(3, 1));
+        assert.throws(() => lp.positionOf(1));
+    });
+
+});
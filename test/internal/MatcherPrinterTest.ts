@@ -0,0 +1,136 @@
+import "mocha";
+import * as assert from "power-assert";
+
+import { print, printSpec } from "../../src/internal/MatcherPrinter";
+import { Concat } from "../../src/matchers/Concat";
+import { notFollowedBy } from "../../src/matchers/Lookahead";
+import { takeUntil } from "../../src/matchers/skip/Skip";
+import { Microgrammar } from "../../src/Microgrammar";
+import { firstOf, optional } from "../../src/Ops";
+import { Integer, Literal, Regex } from "../../src/Primitives";
+import { atLeastOne, between, Rep1Sep } from "../../src/Rep";
+
+describe("MatcherPrinter", () => {
+
+    /**
+     * Check that printing the grammar and parsing the result gives a grammar
+     * that prints the same and finds the same matches in the input
+     */
+    function roundTrip(original: Concat, input: string, options = {}) {
+        const printed = printSpec(original, options);
+        const reparsed = Microgrammar.fromString(printed.spec, printed.components, options);
+        assert.deepEqual(printSpec(reparsed.matcher, options), printed);
+        const expected = new Microgrammar(original).findMatches(input);
+        const actual = reparsed.findMatches(input);
+        assert(expected.length > 0);
+        assert.deepEqual(actual.map(m => m.$matched), expected.map(m => m.$matched));
+        assert.deepEqual(actual.map(m => m.matchedStructure()), expected.map(m => m.matchedStructure()));
+        return printed;
+    }
+
+    describe("print", () => {
+
+        it("prints primitives", () => {
+            assert(print(new Literal("x\"y")) === `"x\\"y"`);
+            assert(print(Integer) === "Integer");
+            assert(print(new Regex(/[a-z]+/)) === "/[a-z]+/");
+            assert(print(new Regex(/[a-z]+/i)) === "/[a-z]+/i");
+            assert(print(new Regex(/^[a-z]+/imu)) === "/[a-z]+/imu");
+        });
+
+        it("prints combinators", () => {
+            assert(print(optional(firstOf("a", Integer))) === `optional(firstOf("a", Integer))`);
+            assert(print(new Rep1Sep(/[a-z]+/, ",")) === `new Rep1Sep(/[a-z]+/, ",")`);
+            assert(print(atLeastOne("x")) === `new Rep1("x")`);
+            assert(print(between("x", 2, 4)) === `new Repetition("x", 2, undefined, 4)`);
+            assert(print(takeUntil(";")) === `takeUntil(";")`);
+            assert(print(notFollowedBy("!")) === `notFollowedBy("!")`);
+        });
+
+        it("prints Concats as definitions", () => {
+            const c = Concat.of({ name: /[a-z]+/, _eq: "=", value: optional(Integer) });
+            assert(print(c) === `{ name: /[a-z]+/, _eq: "=", value: optional(Integer) }`);
+        });
+
+        it("prints recursive references as $ids", () => {
+            const list = { $id: "list", _open: "(", items: null, _close: ")", $lazy: true };
+            const listConcat = Concat.of(list);
+            list.items = optional(listConcat);
+            listConcat._init();
+            assert(print(listConcat) === `{ $id: "list", _open: "(", items: optional(list), _close: ")", $lazy: true }`);
+        });
+    });
+
+    describe("printSpec", () => {
+
+        it("prints inferred references", () => {
+            const printed = roundTrip(Microgrammar.fromString("<${name}>").matcher, "<a> <b>");
+            assert(printed.spec === "< ${name} >");
+            assert.deepEqual(printed.components, {});
+        });
+
+        it("prints components and whitespace separated literals", () => {
+            const printed = roundTrip(Microgrammar.fromString("public class ${name} extends ${parent} {", {
+                name: /[A-Z][a-z]+/,
+            }).matcher, "public class Dog extends Animal { } public  class Cat extends\tAnimal {");
+            assert(printed.spec === "public class ${name} extends ${parent} {");
+            assert.deepEqual(Object.keys(printed.components), ["name"]);
+            assert(printed.descriptions.name === "/[A-Z][a-z]+/");
+        });
+
+        it("prints regex components with their flags", () => {
+            const printed = roundTrip(Microgrammar.fromString("class ${name}", {
+                name: /[a-z]+/i,
+            }).matcher, "class Dog CLASS CAT");
+            assert(printed.descriptions.name === "/[a-z]+/i");
+        });
+
+        it("prints ellipses", () => {
+            const printed = roundTrip(Microgrammar.fromString("function ${name} ... return ${value};", {
+                name: /[a-z]+/,
+                value: Integer,
+            }).matcher, "function thing() { x = 2; return 42; }");
+            assert(printed.spec === "function ${name} ... return ${value} ;");
+        });
+
+        it("respects options", () => {
+            const options = { componentPrefix: "%", ellipsis: "[...]" };
+            const printed = roundTrip(Microgrammar.fromString("<%{name}: [...] %{value}>", {
+                value: Integer,
+            }, options).matcher, "<abc: x y 12>", options);
+            assert(printed.spec === "< %{name} : [...] %{value} >");
+        });
+
+        it("preserves whitespace when tokens aren't separated", () => {
+            const printed = roundTrip(Microgrammar.fromString("a = ${value};", {
+                value: Integer,
+                $consumeWhiteSpaceBetweenTokens: false,
+            }).matcher, "a = 1; a =2; a = 3;");
+            assert(printed.spec === "a =${value};");
+            assert(printed.components.$consumeWhiteSpaceBetweenTokens === false);
+        });
+
+        it("prints Concats from definitions", () => {
+            const printed = roundTrip(Concat.of({
+                _open: "[",
+                first: Integer,
+                rest: optional(firstOf("+", "-")),
+                _dots: "${...}",
+                _close: "]",
+            }), "[1 + ${...}] [2 ${...} ]");
+            assert(printed.spec === "[ ${first}${rest}${_dots} ]");
+            assert(printed.components._dots.literal === "${...}");
+        });
+
+        it("is available on Microgrammar", () => {
+            const mg = Microgrammar.fromString("${key}=${value}", { value: Integer });
+            assert(mg.toSpec().spec === "${key} = ${value}");
+            assert(mg.toSpec().descriptions.value === "Integer");
+        });
+
+        it("refuses computations", () => {
+            assert.throws(() => printSpec(Concat.of({ a: Integer, b: ctx => ctx.a })), /function/);
+        });
+    });
+
+});
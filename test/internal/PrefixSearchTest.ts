@@ -0,0 +1,66 @@
+import "mocha";
+import * as assert from "power-assert";
+
+import { inputStateFromString } from "../../src/internal/InputStateFactory";
+import { PrefixSearch } from "../../src/internal/PrefixSearch";
+import { readyToMatch } from "../../src/internal/Whitespace";
+import { Literal } from "../../src/Primitives";
+
+function find(strings: string[], input: string, from: number = 0): number {
+    return new PrefixSearch(strings).find(o => input.charAt(o), from);
+}
+
+describe("PrefixSearch", () => {
+
+    it("finds a single string", () => {
+        assert(find(["cat"], "the cat sat") === 4);
+    });
+
+    it("finds the first of several strings", () => {
+        assert(find(["<plugin>", "<dependency>"], "<project><dependency><plugin>") === 9);
+    });
+
+    it("finds nothing", () => {
+        assert(find(["dog", "bird"], "the cat sat") === -1);
+    });
+
+    it("searches from an offset", () => {
+        assert(find(["cat"], "cat cat", 1) === 4);
+    });
+
+    it("finds the leftmost occurrence when strings overlap", () => {
+        assert(find(["abcd", "bc"], "xabcd") === 1);
+        assert(find(["bc", "abcd"], "xabce") === 2);
+    });
+
+    it("follows failure links", () => {
+        assert(find(["he", "she", "hers"], "ahishers") === 3);
+        assert(find(["aab"], "aaab") === 1);
+    });
+
+    it("rejects the empty string", () => {
+        assert.throws(() => new PrefixSearch(["a", ""]));
+    });
+
+    it("skips input state to any of several strings", () => {
+        const is = inputStateFromString("junk <plugin> <dependency>");
+        const skipped = is.skipToAny(["<dependency>", "<plugin>"]);
+        assert(skipped.skipped === "junk ");
+        assert(skipped.state.peek(8) === "<plugin>");
+    });
+
+    it("exhausts input state if no string is found", () => {
+        const is = inputStateFromString("junk");
+        const skipped = is.skipToAny(["<dependency>", "<plugin>"]);
+        assert(skipped.skipped === "junk");
+        assert(skipped.state.exhausted());
+    });
+
+    it("skips input state without skipToAny to any of several strings", () => {
+        const is = Object.create(inputStateFromString("junk <plugin> <dependency>"), { skipToAny: { value: undefined } });
+        const skipped = readyToMatch(is, true, new Literal("<dependency>"), new Literal("<plugin>"));
+        assert(skipped.skipped === "junk ");
+        assert(skipped.state.peek(8) === "<plugin>");
+    });
+
+});
@@ -2,6 +2,7 @@ import { expect } from "chai";
 import { inputStateFromString } from "../../src/internal/InputStateFactory";
 import { Concat } from "../../src/matchers/Concat";
 import { isSuccessfulMatch } from "../../src/MatchPrefixResult";
+import { firstOf } from "../../src/Ops";
 import { PatternMatch } from "../../src/PatternMatch";
 import { Integer } from "../../src/Primitives";
 import { Rep1Sep, RepSep } from "../../src/Rep";
@@ -261,6 +262,40 @@ describe("Concat", () => {
         });
     });
 
+    it("matches a step named requiredPrefixes", () => {
+        const mg = Concat.of({
+            requiredPrefixes: /[a-z]+/,
+            _eq: "=",
+            value: Integer,
+        });
+        const result = mg.matchPrefix(inputStateFromString("prefix=1"), {}, {});
+        assert(isSuccessfulMatch(result));
+        assert((result as any).match.requiredPrefixes === "prefix");
+        assert(mg.matchSteps.length === 3);
+    });
+
+    it("does not take the requiredPrefixes of a matcher as a step", () => {
+        const mg = Concat.of(firstOf("x", "y"));
+        assert(!mg.matchSteps.some(s => s.$id === "requiredPrefixes"));
+    });
+
+    it("matches a step named firstCharacters", () => {
+        const mg = Concat.of({
+            firstCharacters: /[a-z]+/,
+            _eq: "=",
+            value: Integer,
+        });
+        const result = mg.matchPrefix(inputStateFromString("abc=1"), {}, {});
+        assert(isSuccessfulMatch(result));
+        assert((result as any).match.firstCharacters === "abc");
+        assert(mg.matchSteps.length === 3);
+    });
+
+    it("does not take the firstCharacters of a matcher as a step", () => {
+        const mg = Concat.of(firstOf("x", "y"));
+        assert(!mg.matchSteps.some(s => s.$id === "firstCharacters"));
+    });
+
     it("does not skip", () => {
         const content = "tom:49";
         const mg = Concat.of({
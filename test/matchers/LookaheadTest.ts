@@ -0,0 +1,97 @@
+import "mocha";
+import * as assert from "power-assert";
+
+import { inputStateFromString } from "../../src/internal/InputStateFactory";
+import { Lookahead, lookahead, notFollowedBy } from "../../src/matchers/Lookahead";
+import { isSuccessfulMatch } from "../../src/MatchPrefixResult";
+import { Microgrammar } from "../../src/Microgrammar";
+import { Integer } from "../../src/Primitives";
+import { Rep, Rep1 } from "../../src/Rep";
+
+describe("Lookahead", () => {
+
+    it("lookahead matches without consuming input", () => {
+        const la = lookahead("foo");
+        const m = la.matchPrefix(inputStateFromString("foo bar"), {}, {});
+        if (isSuccessfulMatch(m)) {
+            assert(m.$matched === "");
+            assert(m.$offset === 0);
+            assert(m.$value === "foo");
+        } else {
+            assert.fail("Didn't match");
+        }
+    });
+
+    it("lookahead fails when matcher doesn't match", () => {
+        const la = lookahead("foo");
+        const m = la.matchPrefix(inputStateFromString("bar foo"), {}, {});
+        assert(!isSuccessfulMatch(m));
+    });
+
+    it("notFollowedBy matches when matcher doesn't match", () => {
+        const nfb = notFollowedBy("foo");
+        const m = nfb.matchPrefix(inputStateFromString("bar"), {}, {});
+        if (isSuccessfulMatch(m)) {
+            assert(m.$matched === "");
+            assert(m.$value === undefined);
+        } else {
+            assert.fail("Didn't match");
+        }
+    });
+
+    it("notFollowedBy fails when matcher matches", () => {
+        const nfb = notFollowedBy("foo");
+        const m = nfb.matchPrefix(inputStateFromString("foobar"), {}, {});
+        assert(!isSuccessfulMatch(m));
+    });
+
+    it("lookahead in concat", () => {
+        const mg = Microgrammar.fromDefinitions<{ name: string }>({
+            name: /[a-z]+/,
+            _followedBy: lookahead("("),
+        });
+        const matches = mg.findMatches("x = foo(y) + bar");
+        assert.deepEqual(matches.map(m => m.name), ["foo"]);
+        assert(matches[0].$matched === "foo");
+    });
+
+    it("notFollowedBy in concat", () => {
+        const mg = Microgrammar.fromDefinitions<{ n: number }>({
+            n: Integer,
+            _notFloat: notFollowedBy("."),
+        });
+        const matches = mg.findMatches("1 2.5 3");
+        assert.deepEqual(matches.map(m => m.n), [1, 5, 3]);
+    });
+
+    it("zero width matches within rep do not trip empty match guard", () => {
+        const rep = new Rep(lookahead("a"));
+        const m = rep.matchPrefix(inputStateFromString("aaa"), {}, {});
+        if (isSuccessfulMatch(m)) {
+            assert(m.$matched === "");
+        } else {
+            assert.fail("Didn't match");
+        }
+    });
+
+    it("rep of words not followed by terminator", () => {
+        const mg = Microgrammar.fromDefinitions<{ words: string[], last: string }>({
+            words: new Rep1({ _notEnd: notFollowedBy("end"), word: /[a-z]+/ }),
+            last: "end",
+        });
+        const result = mg.firstMatch("a b c end");
+        assert.deepEqual(result.words.map((w: any) => w.word), ["a", "b", "c"]);
+        assert(result.last === "end");
+    });
+
+    it("exposes optimization information for positive lookahead only", () => {
+        const positive = new Lookahead("foo", true);
+        const negative = new Lookahead("foo", false);
+        assert(positive.requiredPrefix === "foo");
+        assert(positive.canStartWith("f"));
+        assert(!positive.canStartWith("x"));
+        assert(negative.requiredPrefix === undefined);
+        assert(negative.canStartWith("x"));
+    });
+
+});
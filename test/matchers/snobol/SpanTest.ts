@@ -36,6 +36,7 @@ describe("Span", () => {
                        const mmmm = m.match as any;
                        assert(mmmm.$offset === 0);
                        assert((m as any).$matched === "frida");
+                       assert(mmmm.$value === "frida");
 
                     } else {
                        assert.fail("Didn't match");
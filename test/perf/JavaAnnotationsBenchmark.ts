@@ -16,7 +16,7 @@ describe("Java Benchmark", () => {
 
     const comments = 100;
 
-    it("parses annotated methods", () => {
+    function source(): string {
         let additional = "";
         for (let m = 0; m < validTargetMethods; m++) {
             additional += validMethod(m);
@@ -30,7 +30,11 @@ describe("Java Benchmark", () => {
         for (let m = 0; m < comments; m++) {
             additional += comment();
         }
-        const src = Java1.replace("//placeholder", additional);
+        return Java1.replace("//placeholder", additional);
+    }
+
+    it("parses annotated methods", () => {
+        const src = source();
 
         // console.log(`Src length=${src.split("\n").length} lines`);
         // src = new CFamilyLangHelper().canonicalize(src);
@@ -41,6 +45,15 @@ describe("Java Benchmark", () => {
         }
     }).timeout(55000);
 
+    it("parses annotated methods with memoization", () => {
+        const src = source();
+        for (let i = 0; i < parseCount; i++) {
+            const matches = ChangeControlledMethodGrammar.findMatches(src, {}, undefined, undefined,
+                { memoize: true });
+            assert(matches.length === 8 + validTargetMethods);
+        }
+    }).timeout(55000);
+
 });
 
 export const Java1 = `
@@ -10,9 +10,8 @@ describe("XML Benchmark", () => {
 
     const comments = 10;
 
-    it("parses POM", () => {
-
-        let pom = POM_WITH_DEPENDENCY_MANAGEMENT;
+    function pom(): string {
+        let content = POM_WITH_DEPENDENCY_MANAGEMENT;
 
         for (let i = 0; i < addedDependencies; i++) {
             const g = "com.someone";
@@ -22,12 +21,25 @@ describe("XML Benchmark", () => {
             if (i < comments) {
                 toAdd += addedComment(i);
             }
-            pom = pom.replace(ADD_DEPENDENCY, ADD_DEPENDENCY + "\n" + toAdd + "\n");
+            content = content.replace(ADD_DEPENDENCY, ADD_DEPENDENCY + "\n" + toAdd + "\n");
         }
+        return content;
+    }
+
+    it("parses POM", () => {
+        const content = pom();
+        for (let i = 0; i < parseCount; i++) {
+            const xt = new XmlTracker();
+            xt.consume(content);
+            assert(xt.dependencies.length === 1 + addedDependencies);
+        }
+    }).timeout(50000);
 
+    it("parses POM with memoization", () => {
+        const content = pom();
         for (let i = 0; i < parseCount; i++) {
             const xt = new XmlTracker();
-            xt.consume(pom);
+            xt.consume(content, {}, undefined, { memoize: true });
             assert(xt.dependencies.length === 1 + addedDependencies);
         }
     }).timeout(50000);